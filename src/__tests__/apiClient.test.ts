@@ -0,0 +1,310 @@
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+import { ApiClient } from '../client/apiClient';
+import {
+  AbortError,
+  AuthenticationError,
+  FinlightApiError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from '../errors';
+import { MemoryCacheStore } from '../cache';
+import { noopLogger } from '../logger';
+import { defaultApiConfig } from '../types';
+
+jest.mock('axios', () => {
+  const actual = jest.requireActual('axios');
+  return {
+    __esModule: true,
+    ...actual,
+    default: { ...actual.default, create: jest.fn() },
+  };
+});
+
+describe('ApiClient', () => {
+  const mockRequest = jest.fn();
+
+  const createClient = (retryCount = 1) =>
+    new ApiClient({ ...defaultApiConfig, apiKey: 'test', retryCount, logger: noopLogger });
+
+  const httpError = (status: number, data?: unknown, headers: Record<string, string> = {}) => {
+    const config = { headers: new AxiosHeaders() };
+    return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, {
+      status,
+      statusText: '',
+      data,
+      headers,
+      config,
+    });
+  };
+
+  const captureError = (promise: Promise<unknown>): Promise<any> => promise.catch((e) => e);
+
+  beforeEach(() => {
+    mockRequest.mockReset();
+    (axios.create as jest.Mock).mockReturnValue({ request: mockRequest });
+  });
+
+  it('should return response data on success', async () => {
+    mockRequest.mockResolvedValue({ data: { status: 'ok' } });
+
+    await expect(createClient().request('GET', '/v2/sources')).resolves.toEqual({ status: 'ok' });
+  });
+
+  it.each([
+    [401, AuthenticationError],
+    [403, AuthenticationError],
+    [404, NotFoundError],
+    [400, ValidationError],
+    [422, ValidationError],
+    [429, RateLimitError],
+    [500, ServerError],
+    [503, ServerError],
+    [418, FinlightApiError],
+  ])('should map status %d to the matching error class', async (status, ErrorClass) => {
+    mockRequest.mockRejectedValue(httpError(status));
+
+    const error = await captureError(createClient().request('GET', '/v2/articles/by-link'));
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(FinlightApiError);
+    expect(error.status).toBe(status);
+  });
+
+  it('should attach endpoint, request id and server body', async () => {
+    mockRequest.mockRejectedValue(httpError(404, { message: 'Article not found' }, { 'x-request-id': 'req-123' }));
+
+    const error = await captureError(
+      createClient().request('GET', '/v2/articles/by-link', { link: 'https://example.com' }),
+    );
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.method).toBe('GET');
+    expect(error.endpoint).toBe('/v2/articles/by-link');
+    expect(error.requestId).toBe('req-123');
+    expect(error.body).toEqual({ message: 'Article not found' });
+    expect(error.message).toContain('Article not found');
+  });
+
+  it('should parse Retry-After on rate limit errors', async () => {
+    mockRequest.mockRejectedValue(httpError(429, undefined, { 'retry-after': '7' }));
+
+    const error = await captureError(createClient().request('POST', '/v2/articles', {}));
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(7000);
+  });
+
+  it('should map timeouts and connection failures', async () => {
+    mockRequest.mockRejectedValueOnce(new AxiosError('timeout of 5000ms exceeded', 'ECONNABORTED'));
+    mockRequest.mockRejectedValueOnce(new AxiosError('socket hang up', 'ECONNRESET'));
+    const client = createClient();
+
+    await expect(client.request('GET', '/v2/sources')).rejects.toBeInstanceOf(TimeoutError);
+
+    const error = await captureError(client.request('GET', '/v2/sources'));
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.code).toBe('ECONNRESET');
+  });
+
+  it('should retry network errors until the request succeeds', async () => {
+    mockRequest.mockRejectedValueOnce(new AxiosError('socket hang up', 'ECONNRESET'));
+    mockRequest.mockResolvedValueOnce({ data: [] });
+    const client = new ApiClient({
+      ...defaultApiConfig,
+      apiKey: 'test',
+      logger: noopLogger,
+      retryPolicy: { baseDelayMs: 0 },
+    });
+
+    await expect(client.request('GET', '/v2/sources')).resolves.toEqual([]);
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop retrying when the elapsed time budget would be exceeded', async () => {
+    mockRequest.mockRejectedValue(httpError(429, undefined, { 'retry-after': '60' }));
+    const client = new ApiClient({
+      ...defaultApiConfig,
+      apiKey: 'test',
+      logger: noopLogger,
+      retryPolicy: { maxAttempts: 5, maxElapsedMs: 10000, maxDelayMs: 120000 },
+    });
+
+    await expect(client.request('GET', '/v2/sources')).rejects.toBeInstanceOf(RateLimitError);
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw instead of retrying early when Retry-After exceeds maxDelayMs', async () => {
+    mockRequest.mockRejectedValue(httpError(429, undefined, { 'retry-after': '3600' }));
+    const client = new ApiClient({
+      ...defaultApiConfig,
+      apiKey: 'test',
+      logger: noopLogger,
+      retryPolicy: { maxAttempts: 5 },
+    });
+
+    const error = await captureError(client.request('GET', '/v2/sources'));
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(3_600_000);
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry non-retryable errors', async () => {
+    mockRequest.mockRejectedValue(httpError(401));
+
+    await expect(createClient(3).request('GET', '/v2/sources')).rejects.toBeInstanceOf(AuthenticationError);
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve repeated requests from the cache when enabled', async () => {
+    mockRequest.mockResolvedValue({ data: [{ domain: 'reuters.com' }] });
+    const client = new ApiClient({ ...defaultApiConfig, apiKey: 'test', cache: true, logger: noopLogger });
+
+    await client.request('GET', '/v2/sources');
+    await expect(client.request('GET', '/v2/sources')).resolves.toEqual([{ domain: 'reuters.com' }]);
+    await client.request('GET', '/v2/sources', undefined, { cache: 'bypass' });
+
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+    expect(client.cache!.getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('should not serve a response cached for other per-call headers', async () => {
+    mockRequest.mockResolvedValueOnce({ data: ['en'] }).mockResolvedValueOnce({ data: ['de'] });
+    const client = new ApiClient({ ...defaultApiConfig, apiKey: 'test', cache: true, logger: noopLogger });
+
+    await client.request('GET', '/v2/sources', undefined, { headers: { 'Accept-Language': 'en' } });
+    const german = await client.request('GET', '/v2/sources', undefined, { headers: { 'Accept-Language': 'de' } });
+
+    expect(german).toEqual(['de']);
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not share cached responses between API keys', async () => {
+    mockRequest.mockResolvedValueOnce({ data: ['first'] }).mockResolvedValueOnce({ data: ['second'] });
+    const store = new MemoryCacheStore();
+    const createCachingClient = (apiKey: string) =>
+      new ApiClient({ ...defaultApiConfig, apiKey, cache: { store }, logger: noopLogger });
+
+    await createCachingClient('key-1').request('GET', '/v2/sources');
+    const other = await createCachingClient('key-2').request('GET', '/v2/sources');
+    const same = await createCachingClient('key-1').request('GET', '/v2/sources');
+
+    expect(other).toEqual(['second']);
+    expect(same).toEqual(['first']);
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('should send identical concurrent requests once when coalescing', async () => {
+    mockRequest.mockResolvedValue({ data: { status: 'ok' } });
+    const client = new ApiClient({ ...defaultApiConfig, apiKey: 'test', coalesceRequests: true, logger: noopLogger });
+
+    const results = await Promise.all([
+      client.request('POST', '/v2/articles', { query: 'Tesla', pageSize: 10 }),
+      client.request('POST', '/v2/articles', { pageSize: 10, query: 'Tesla' }),
+      client.request('POST', '/v2/articles', { query: 'Apple' }),
+    ]);
+
+    expect(results).toEqual([{ status: 'ok' }, { status: 'ok' }, { status: 'ok' }]);
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not share a request between calls with different per-call options when coalescing', async () => {
+    mockRequest.mockResolvedValue({ data: { status: 'ok' } });
+    const client = new ApiClient({ ...defaultApiConfig, apiKey: 'test', coalesceRequests: true, logger: noopLogger });
+    const params = { query: 'Tesla' };
+
+    await Promise.all([
+      client.request('POST', '/v2/articles', params),
+      client.request('POST', '/v2/articles', params, { timeout: 30000 }),
+      client.request('POST', '/v2/articles', params, { retryCount: 1 }),
+      client.request('POST', '/v2/articles', params, { priority: 5 }),
+      client.request('POST', '/v2/articles', params, { priority: 5, cache: 'bypass' }),
+    ]);
+
+    expect(mockRequest).toHaveBeenCalledTimes(4);
+    expect(mockRequest).toHaveBeenCalledWith(expect.objectContaining({ timeout: 30000 }));
+  });
+
+  it('should map a canceled request to an AbortError without retrying', async () => {
+    mockRequest.mockRejectedValue(new axios.CanceledError());
+
+    const error = await captureError(createClient(3).request('GET', '/v2/sources'));
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+
+  describe('per-call options', () => {
+    it('should pass timeout, headers and signal to the request', async () => {
+      mockRequest.mockResolvedValue({ data: {} });
+      const controller = new AbortController();
+
+      await createClient().request(
+        'POST',
+        '/v2/articles',
+        { pageSize: 1000 },
+        {
+          timeout: 30000,
+          headers: { 'X-Trace-Id': 'abc' },
+          signal: controller.signal,
+        },
+      );
+
+      expect(mockRequest).toHaveBeenCalledWith(
+        expect.objectContaining({
+          timeout: 30000,
+          headers: { 'X-API-KEY': 'test', 'X-Trace-Id': 'abc' },
+          signal: controller.signal,
+        }),
+      );
+    });
+
+    it('should override the number of attempts', async () => {
+      mockRequest.mockRejectedValue(httpError(503));
+      const client = new ApiClient({
+        ...defaultApiConfig,
+        apiKey: 'test',
+        retryPolicy: { maxAttempts: 5, baseDelayMs: 0 },
+        logger: noopLogger,
+      });
+
+      await captureError(client.request('GET', '/v2/sources', undefined, { retryCount: 2 }));
+
+      expect(mockRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not send a request when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const error = await captureError(
+        createClient().request('GET', '/v2/sources', undefined, { signal: controller.signal }),
+      );
+
+      expect(error).toBeInstanceOf(AbortError);
+      expect(mockRequest).not.toHaveBeenCalled();
+    });
+
+    it('should stop waiting for a retry when the signal is aborted', async () => {
+      mockRequest.mockRejectedValue(httpError(503));
+      const client = new ApiClient({
+        ...defaultApiConfig,
+        apiKey: 'test',
+        retryPolicy: { maxAttempts: 3, baseDelayMs: 60000, jitter: 'none' },
+        logger: noopLogger,
+      });
+      const controller = new AbortController();
+
+      const pending = captureError(client.request('GET', '/v2/sources', undefined, { signal: controller.signal }));
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(pending).resolves.toBeInstanceOf(AbortError);
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,363 @@
+import { ApiClient } from '../client/apiClient';
+import { AbortError, NotFoundError, ParamIssue, ParamsValidationError, ServerError } from '../errors';
+import { ArticleService } from '../services/articleService';
+import { BackfillCheckpoint, BackfillParams } from '../types';
+
+describe('ArticleService', () => {
+  // Services read responses through requestWithMetadata; tests assert on the plain request mock
+  const mockApiClient = (request: (...args: any[]) => unknown) =>
+    ({
+      request,
+      requestWithMetadata: (...args: unknown[]) =>
+        Promise.resolve(request(...args)).then((data) => ({ data, metadata: {} })),
+    }) as unknown as ApiClient;
+
+  // Search params as the service sends them: dates are normalized to strings
+  type SearchRequestParams = { page: number; pageSize: number; from?: string; to?: string };
+
+  const rawArticle = (id: number) => ({
+    link: `https://example.com/${id}`,
+    title: `Article ${id}`,
+    publishDate: '2024-01-01T00:00:00Z',
+    source: 'example.com',
+    language: 'en',
+  });
+
+  const pageOf = (page: number, ids: number[], pageSize = 3) => ({
+    status: 'ok',
+    page,
+    pageSize,
+    articles: ids.map(rawArticle),
+  });
+
+  const createService = (pages: Record<number, ReturnType<typeof pageOf>>) => {
+    const request = jest.fn((_method: string, _url: string, params: SearchRequestParams) =>
+      Promise.resolve(pages[params.page] ?? pageOf(params.page, [])),
+    );
+    return { service: new ArticleService(mockApiClient(request)), request };
+  };
+
+  const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+    const items: T[] = [];
+    for await (const item of iterable) {
+      items.push(item);
+    }
+    return items;
+  };
+
+  describe('iterate', () => {
+    it('should walk pages until a short page is returned', async () => {
+      const { service, request } = createService({
+        1: pageOf(1, [1, 2, 3]),
+        2: pageOf(2, [4, 5, 6]),
+        3: pageOf(3, [7]),
+      });
+
+      const articles = await collect(service.iterate({ query: 'Tesla', pageSize: 3 }));
+
+      expect(articles.map((a) => a.title)).toEqual([1, 2, 3, 4, 5, 6, 7].map((id) => `Article ${id}`));
+      expect(articles[0].publishDate).toBeInstanceOf(Date);
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(request.mock.calls[2][2]).toEqual({ query: 'Tesla', pageSize: 3, page: 3 });
+    });
+
+    it('should dedupe articles shifted across page boundaries', async () => {
+      const { service } = createService({
+        1: pageOf(1, [1, 2, 3]),
+        2: pageOf(2, [3, 4, 5]),
+        3: pageOf(3, []),
+      });
+
+      const articles = await collect(service.iterate({ pageSize: 3 }));
+
+      expect(articles.map((a) => a.link)).toEqual([1, 2, 3, 4, 5].map((id) => `https://example.com/${id}`));
+    });
+
+    it('should stop at maxItems', async () => {
+      const { service, request } = createService({
+        1: pageOf(1, [1, 2, 3]),
+        2: pageOf(2, [4, 5, 6]),
+      });
+
+      const articles = await collect(service.iterate({ pageSize: 3 }, { maxItems: 4 }));
+
+      expect(articles).toHaveLength(4);
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop with an AbortError when the signal is aborted', async () => {
+      const { service, request } = createService({
+        1: pageOf(1, [1, 2, 3]),
+        2: pageOf(2, [4, 5, 6]),
+      });
+      const controller = new AbortController();
+      const titles: string[] = [];
+
+      const run = async () => {
+        for await (const article of service.iterate({ pageSize: 3 }, { signal: controller.signal })) {
+          titles.push(article.title);
+          controller.abort();
+        }
+      };
+
+      await expect(run()).rejects.toBeInstanceOf(AbortError);
+      expect(titles).toEqual(['Article 1', 'Article 2', 'Article 3']);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('fetchArticles', () => {
+    it('should send dates normalized to UTC', async () => {
+      const { service, request } = createService({});
+
+      await service.fetchArticles({ from: new Date('2024-01-01T12:00:00+02:00'), to: '2024-01-02' });
+
+      expect(request.mock.calls[0][2]).toMatchObject({ from: '2024-01-01T10:00:00.000Z', to: '2024-01-02' });
+    });
+  });
+
+  describe('fetchArticlesByLinks', () => {
+    const createLinkService = () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const request = jest.fn(async (_method: string, _url: string, params: { link: string }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        if (params.link.endsWith('missing')) throw new NotFoundError('Not found', { status: 404 });
+        if (params.link.endsWith('broken')) throw new ServerError('Boom', { status: 500 });
+        return { ...rawArticle(0), link: params.link };
+      });
+      const service = new ArticleService(mockApiClient(request));
+      return { service, request, maxInFlight: () => maxInFlight };
+    };
+
+    it('should return a result per unique link without failing the batch', async () => {
+      const { service, request } = createLinkService();
+      const links = ['https://a.com/1', 'https://a.com/missing', 'https://a.com/1', 'https://a.com/broken', 'nope'];
+
+      const results = await service.fetchArticlesByLinks(links);
+
+      expect(results.map((r) => [r.link, r.status])).toEqual([
+        ['https://a.com/1', 'found'],
+        ['https://a.com/missing', 'not_found'],
+        ['https://a.com/broken', 'error'],
+        ['nope', 'error'],
+      ]);
+      expect(results[0].status === 'found' && results[0].article.publishDate).toBeInstanceOf(Date);
+      expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should cap concurrency and report progress', async () => {
+      const { service, maxInFlight } = createLinkService();
+      const links = Array.from({ length: 7 }, (_, i) => `https://a.com/${i}`);
+      const progress: number[] = [];
+
+      await service.fetchArticlesByLinks(links, {
+        concurrency: 2,
+        onProgress: ({ completed, total, found }) => {
+          expect(total).toBe(7);
+          expect(found).toBe(completed);
+          progress.push(completed);
+        },
+      });
+
+      expect(maxInFlight()).toBe(2);
+      expect(progress).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    });
+
+    it('should reject with an AbortError when the signal is aborted', async () => {
+      const { service, request } = createLinkService();
+      const controller = new AbortController();
+      const links = Array.from({ length: 5 }, (_, i) => `https://a.com/${i}`);
+
+      const batch = service.fetchArticlesByLinks(links, {
+        concurrency: 1,
+        signal: controller.signal,
+        onProgress: () => controller.abort(),
+      });
+
+      await expect(batch).rejects.toBeInstanceOf(AbortError);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('paginate', () => {
+    it('should yield pages starting at the requested page', async () => {
+      const { service } = createService({
+        2: pageOf(2, [4, 5, 6]),
+        3: pageOf(3, [7, 8]),
+      });
+
+      const pages = await collect(service.paginate({ page: 2, pageSize: 3 }));
+
+      expect(pages.map((p) => p.page)).toEqual([2, 3]);
+      expect(pages[1].articles).toHaveLength(2);
+    });
+
+    it('should pin relative dates for every page', async () => {
+      jest.useFakeTimers({ now: Date.parse('2024-06-01T12:00:00Z') });
+      try {
+        const { service, request } = createService({
+          1: pageOf(1, [1, 2, 3]),
+          2: pageOf(2, [4]),
+        });
+
+        for await (const page of service.paginate({ from: { last: '24h' }, to: 'now', pageSize: 3 })) {
+          expect(page.articles.length).toBeGreaterThan(0);
+          jest.advanceTimersByTime(60 * 1000);
+        }
+
+        const ranges = request.mock.calls.map(([, , params]) => [params.from, params.to]);
+        expect(ranges).toEqual([
+          ['2024-05-31T12:00:00.000Z', '2024-06-01T12:00:00.000Z'],
+          ['2024-05-31T12:00:00.000Z', '2024-06-01T12:00:00.000Z'],
+        ]);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should stop at maxPages', async () => {
+      const { service } = createService({
+        1: pageOf(1, [1, 2, 3]),
+        2: pageOf(2, [4, 5, 6]),
+      });
+
+      const pages = await collect(service.paginate({ pageSize: 3 }, { maxPages: 1 }));
+
+      expect(pages).toHaveLength(1);
+    });
+  });
+
+  describe('backfill', () => {
+    const HOUR = 60 * 60 * 1000;
+    const start = Date.parse('2024-01-01T00:00:00Z');
+
+    // Serves `publishTimes` like the server would: filtered by from/to and paged
+    const createBackfillService = (publishTimes: number[]) => {
+      const request = jest.fn((_method: string, _url: string, params: SearchRequestParams) => {
+        const from = Date.parse(params.from!);
+        const to = Date.parse(params.to!);
+        const matching = publishTimes.filter((t) => t >= from && t < to);
+        const slice = matching.slice((params.page - 1) * params.pageSize, params.page * params.pageSize);
+        return Promise.resolve({
+          status: 'ok',
+          page: params.page,
+          pageSize: params.pageSize,
+          articles: slice.map((t) => ({ ...rawArticle(t), publishDate: new Date(t).toISOString() })),
+        });
+      });
+      return { service: new ArticleService(mockApiClient(request)), request };
+    };
+
+    it('should split windows that hit the page limit and emit every article once', async () => {
+      const dense = Array.from({ length: 12 }, (_, i) => start + i * 60 * 1000);
+      const sparse = [start + 5 * HOUR, start + 10 * HOUR];
+      const { service, request } = createBackfillService([...dense, ...sparse]);
+
+      const articles = await collect(
+        service.backfill(
+          { from: '2024-01-01T00:00:00Z', to: '2024-01-01T12:00:00Z' },
+          { initialWindowMs: 12 * HOUR, minWindowMs: 60 * 1000, pageSize: 2, maxPagesPerWindow: 2 },
+        ),
+      );
+
+      expect(articles).toHaveLength(14);
+      expect(new Set(articles.map((a) => a.link)).size).toBe(14);
+      const times = articles.map((a) => a.publishDate.getTime());
+      expect(times).toEqual([...times].sort((a, b) => a - b));
+      expect(request.mock.calls[0][2]).toMatchObject({ orderBy: 'publishDate', order: 'ASC' });
+    });
+
+    it('should report checkpoints and resume from them', async () => {
+      const publishTimes = [start + HOUR, start + 3 * HOUR, start + 5 * HOUR];
+      const params = { from: '2024-01-01T00:00:00Z', to: '2024-01-01T06:00:00Z' };
+      const options = { initialWindowMs: 2 * HOUR, maxWindowMs: 2 * HOUR };
+      const checkpoints: BackfillCheckpoint[] = [];
+      const onCheckpoint = (checkpoint: BackfillCheckpoint) => {
+        checkpoints.push(checkpoint);
+      };
+
+      const { service } = createBackfillService(publishTimes);
+      const first: string[] = [];
+      for await (const article of service.backfill(params, { ...options, onCheckpoint })) {
+        first.push(article.link);
+        if (first.length === 2) break;
+      }
+
+      expect(checkpoints).toEqual([{ cursor: '2024-01-01T02:00:00.000Z', windowMs: 2 * HOUR, articlesEmitted: 1 }]);
+
+      const resumed = await collect(service.backfill(params, { ...options, resumeFrom: checkpoints[0] }));
+      expect(resumed.map((a) => a.publishDate.getTime())).toEqual([start + 3 * HOUR, start + 5 * HOUR]);
+    });
+
+    it('should include the whole last day of a date-only range', async () => {
+      const lastDay = Date.parse('2024-01-02T23:30:00Z');
+      const { service } = createBackfillService([start + HOUR, lastDay, Date.parse('2024-01-03T00:30:00Z')]);
+
+      const articles = await collect(service.backfill({ from: '2024-01-01', to: '2024-01-02' }));
+
+      expect(articles.map((a) => a.publishDate.getTime())).toEqual([start + HOUR, lastDay]);
+    });
+
+    it('should not emit an article on the checkpoint boundary again after resuming', async () => {
+      const params = { from: '2024-01-01T00:00:00Z', to: '2024-01-01T04:00:00Z' };
+      const options = { initialWindowMs: 2 * HOUR, maxWindowMs: 2 * HOUR };
+      // The server treats `to` as inclusive, so the boundary article belongs to both windows
+      const boundary = { ...rawArticle(1), publishDate: '2024-01-01T02:00:00.000Z' };
+      let interrupted = true;
+      const request = jest.fn((_method: string, _url: string, params: SearchRequestParams) => {
+        if (interrupted && params.from === boundary.publishDate) {
+          return Promise.reject(new ServerError('Service unavailable'));
+        }
+        return Promise.resolve({ status: 'ok', page: params.page, pageSize: params.pageSize, articles: [boundary] });
+      });
+      const service = new ArticleService(mockApiClient(request));
+      const checkpoints: BackfillCheckpoint[] = [];
+      const onCheckpoint = (checkpoint: BackfillCheckpoint) => {
+        checkpoints.push(checkpoint);
+      };
+
+      const first: string[] = [];
+      await expect(
+        (async () => {
+          for await (const article of service.backfill(params, { ...options, onCheckpoint })) {
+            first.push(article.link);
+          }
+        })(),
+      ).rejects.toThrow(ServerError);
+      interrupted = false;
+      const resumed = await collect(service.backfill(params, { ...options, resumeFrom: checkpoints[0] }));
+
+      expect(first).toEqual([boundary.link]);
+      expect(checkpoints[0].boundaryLinks).toEqual([boundary.link]);
+      expect(resumed).toEqual([]);
+    });
+
+    it('should reject an invalid range with the offending fields', async () => {
+      const { service, request } = createBackfillService([]);
+
+      const reversed = await collect(service.backfill({ from: '2024-02-01', to: '2024-01-01' })).catch((e) => e);
+      const invalid = await collect(service.backfill({ from: 'last week' } as BackfillParams)).catch((e) => e);
+
+      expect(reversed).toBeInstanceOf(ParamsValidationError);
+      expect(reversed.issues).toEqual([
+        { field: 'from', message: "must not be after 'to' ('2024-02-01' > '2024-01-01')" },
+      ]);
+      expect(invalid.issues.map((issue: ParamIssue) => issue.field)).toEqual(['from', 'to']);
+      expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should accept a same-day range and an exhausted resume cursor', async () => {
+      const { service } = createBackfillService([]);
+      const resumeFrom = { cursor: '2024-01-02T00:00:00.000Z', windowMs: 24 * HOUR, articlesEmitted: 3 };
+
+      await expect(collect(service.backfill({ from: '2024-01-01', to: '2024-01-01' }))).resolves.toEqual([]);
+      await expect(
+        collect(service.backfill({ from: '2024-01-01', to: '2024-01-01' }, { resumeFrom })),
+      ).resolves.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { CircuitBreaker, CircuitStateChange } from '../circuitBreaker';
+import { ApiClient } from '../client/apiClient';
+import { AbortError, CircuitOpenError, NotFoundError, ServerError } from '../errors';
+import { noopLogger } from '../logger';
+import { Transport, TransportRequest, TransportResponse } from '../transport';
+import { defaultApiConfig } from '../types';
+
+describe('CircuitBreaker', () => {
+  const serverError = () => new ServerError('Request failed with status 503', { status: 503 });
+  const succeed = () => Promise.resolve('ok');
+  const fail = () => Promise.reject(serverError());
+
+  const captureError = (promise: Promise<unknown>): Promise<any> => promise.catch((e) => e);
+
+  const failTimes = async (breaker: CircuitBreaker, times: number, endpoint = '/v2/articles') => {
+    for (let i = 0; i < times; i++) {
+      await captureError(breaker.execute('POST', endpoint, fail));
+    }
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should open once the failure rate crosses the threshold', async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 4, failureRateThreshold: 0.5 });
+
+    await breaker.execute('POST', '/v2/articles', succeed);
+    await breaker.execute('POST', '/v2/articles', succeed);
+    await failTimes(breaker, 1);
+    expect(breaker.getState()).toBe('closed');
+
+    await failTimes(breaker, 1);
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('should fail fast without running the task while open', async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2, coolDownMs: 5000 });
+    await failTimes(breaker, 2);
+    const task = jest.fn(succeed);
+
+    const error = await captureError(breaker.execute('GET', '/v2/sources', task));
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.circuit).toBe('*');
+    expect(error.retryAfterMs).toBe(5000);
+    expect(error.message).toBe('Circuit breaker is open for all endpoints (GET /v2/sources)');
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should close after a successful trial request once the cool-down has passed', async () => {
+    const changes: CircuitStateChange[] = [];
+    const breaker = new CircuitBreaker({
+      minimumRequests: 2,
+      coolDownMs: 5000,
+      onStateChange: (change) => changes.push(change),
+    });
+    await failTimes(breaker, 2);
+
+    jest.advanceTimersByTime(5000);
+    await breaker.execute('POST', '/v2/articles', succeed);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(changes).toEqual([
+      { circuit: '*', from: 'closed', to: 'open', failureRate: 1, retryAt: 1_005_000 },
+      { circuit: '*', from: 'open', to: 'half-open', failureRate: 1 },
+      { circuit: '*', from: 'half-open', to: 'closed', failureRate: 1 },
+    ]);
+  });
+
+  it('should log onStateChange errors without failing requests or breaking the transition', async () => {
+    const log = { error: jest.fn() };
+    const breaker = new CircuitBreaker(
+      {
+        minimumRequests: 2,
+        coolDownMs: 5000,
+        onStateChange: () => {
+          throw new Error('callback failed');
+        },
+      },
+      log,
+    );
+    await failTimes(breaker, 1);
+    await expect(breaker.execute('POST', '/v2/articles', fail)).rejects.toBeInstanceOf(ServerError);
+    expect(breaker.getState()).toBe('open');
+
+    jest.advanceTimersByTime(5000);
+    await expect(breaker.execute('POST', '/v2/articles', succeed)).resolves.toBe('ok');
+
+    expect(breaker.getState()).toBe('closed');
+    expect(log.error).toHaveBeenCalledTimes(3);
+    expect(log.error).toHaveBeenCalledWith('Circuit breaker state change callback error:', expect.any(Error));
+  });
+
+  it('should re-open when a trial request fails and limit concurrent trials', async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2, coolDownMs: 5000 });
+    await failTimes(breaker, 2);
+    jest.advanceTimersByTime(5000);
+
+    let failTrial!: (error: Error) => void;
+    const trial = breaker.execute(
+      'POST',
+      '/v2/articles',
+      () => new Promise((_resolve, reject) => (failTrial = reject)),
+    );
+    expect(breaker.getState()).toBe('half-open');
+    await expect(breaker.execute('POST', '/v2/articles', succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    failTrial(serverError());
+    await captureError(trial);
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getStats()[0]).toMatchObject({ state: 'open', retryAt: 1_010_000 });
+  });
+
+  it('should not count client errors and aborts as failures', async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2, failureRateThreshold: 0.6 });
+
+    await captureError(breaker.execute('GET', '/v2/articles/by-link', () => Promise.reject(new NotFoundError('x'))));
+    await captureError(breaker.execute('GET', '/v2/articles/by-link', () => Promise.reject(new AbortError())));
+    await failTimes(breaker, 1);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getStats()).toEqual([{ circuit: '*', state: 'closed', requests: 2, failures: 1, failureRate: 0.5 }]);
+  });
+
+  it('should only count outcomes within the window', async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2, windowMs: 1000 });
+
+    await failTimes(breaker, 1);
+    jest.advanceTimersByTime(1000);
+    await failTimes(breaker, 1);
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should keep separate circuits per endpoint when scoped', async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2, scope: 'endpoint' });
+
+    await failTimes(breaker, 2, '/v2/sources');
+
+    expect(breaker.getState('/v2/sources')).toBe('open');
+    await expect(breaker.execute('POST', '/v2/articles', succeed)).resolves.toBe('ok');
+  });
+
+  describe('in ApiClient', () => {
+    const response = (status: number, data: unknown = {}): TransportResponse => ({ status, headers: {}, data });
+
+    it('should stop retrying once the circuit opens', async () => {
+      const request = jest.fn<Promise<TransportResponse>, [TransportRequest]>(() => Promise.resolve(response(503)));
+      const transport: Transport = { request: request as Transport['request'] };
+      const client = new ApiClient({
+        ...defaultApiConfig,
+        apiKey: 'test',
+        transport,
+        retryPolicy: { maxAttempts: 5, baseDelayMs: 0 },
+        circuitBreaker: { minimumRequests: 2 },
+        logger: noopLogger,
+      });
+
+      const pending = captureError(client.request('POST', '/v2/articles', { query: 'x' }));
+      await jest.runAllTimersAsync();
+
+      expect(await pending).toBeInstanceOf(CircuitOpenError);
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(client.circuitBreaker?.getState()).toBe('open');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { ValidationError } from '../errors';
+import { normalizeDateInput, parseDuration, resolveDate } from '../utils';
+
+describe('dates', () => {
+  const now = Date.parse('2024-06-01T12:00:00Z');
+  const HOUR = 60 * 60 * 1000;
+
+  describe('parseDuration', () => {
+    it('should parse every supported unit', () => {
+      expect(['500ms', '30s', '15m', '24h', '7d', '2w'].map((d) => parseDuration(d))).toEqual([
+        500,
+        30 * 1000,
+        15 * 60 * 1000,
+        24 * HOUR,
+        7 * 24 * HOUR,
+        14 * 24 * HOUR,
+      ]);
+      expect(parseDuration('1.5h')).toBe(1.5 * HOUR);
+    });
+
+    it('should reject malformed durations', () => {
+      expect(parseDuration('24')).toBeUndefined();
+      expect(parseDuration('3 days')).toBeUndefined();
+      expect(parseDuration('-1d')).toBeUndefined();
+    });
+  });
+
+  describe('resolveDate', () => {
+    it('should resolve absolute inputs', () => {
+      expect(resolveDate(new Date('2024-01-01T10:00:00Z'))).toBe(Date.parse('2024-01-01T10:00:00Z'));
+      expect(resolveDate(1704103200000)).toBe(1704103200000);
+      expect(resolveDate('2024-01-01')).toBe(Date.parse('2024-01-01T00:00:00Z'));
+      expect(resolveDate('2024-01-01T12:00:00+02:00')).toBe(Date.parse('2024-01-01T10:00:00Z'));
+    });
+
+    it('should read date-times without an offset as UTC', () => {
+      expect(resolveDate('2024-01-01T10:00')).toBe(Date.parse('2024-01-01T10:00:00Z'));
+    });
+
+    it('should resolve relative inputs against now', () => {
+      expect(resolveDate('now', now)).toBe(now);
+      expect(resolveDate('-7d', now)).toBe(now - 7 * 24 * HOUR);
+      expect(resolveDate('+1h', now)).toBe(now + HOUR);
+      expect(resolveDate({ last: '24h' }, now)).toBe(now - 24 * HOUR);
+    });
+
+    it('should reject invalid inputs', () => {
+      expect(resolveDate(new Date('nope'))).toBeUndefined();
+      expect(resolveDate(NaN)).toBeUndefined();
+      expect(resolveDate('2024-02-30')).toBeUndefined();
+      expect(resolveDate('yesterday')).toBeUndefined();
+      expect(resolveDate({ last: 'a while' })).toBeUndefined();
+    });
+  });
+
+  describe('normalizeDateInput', () => {
+    it('should keep whole days and convert everything else to UTC timestamps', () => {
+      expect(normalizeDateInput('2024-01-01', now)).toBe('2024-01-01');
+      expect(normalizeDateInput(new Date('2024-01-01T12:00:00+02:00'), now)).toBe('2024-01-01T10:00:00.000Z');
+      expect(normalizeDateInput('2024-01-01T10:00', now)).toBe('2024-01-01T10:00:00.000Z');
+      expect(normalizeDateInput({ last: '12h' }, now)).toBe('2024-06-01T00:00:00.000Z');
+      expect(normalizeDateInput(undefined, now)).toBeUndefined();
+    });
+
+    it('should pass unknown strings through and throw for other invalid inputs', () => {
+      expect(normalizeDateInput('next tuesday', now)).toBe('next tuesday');
+      expect(() => normalizeDateInput(new Date('nope'), now)).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileDedupStore, MemoryDedupStore, getArticleIdentity, normalizeLink } from '../dedup';
+
+describe('Duplicate suppression', () => {
+  describe('identity', () => {
+    const article = {
+      link: 'https://example.com/news/1?utm_source=feed',
+      title: '  Nvidia  Beats ',
+      source: 'Example.com',
+    };
+
+    it('should strip tracking parameters, fragments and trailing slashes from links', () => {
+      expect(normalizeLink('https://example.com/news/1/?utm_source=x&b=2&fbclid=abc&a=1#top')).toBe(
+        'https://example.com/news/1?a=1&b=2',
+      );
+      expect(normalizeLink(' not a url ')).toBe('not a url');
+    });
+
+    it('should identify articles by link, normalized link or title and source', () => {
+      expect(getArticleIdentity(article)).toBe('https://example.com/news/1?utm_source=feed');
+      expect(getArticleIdentity(article, 'normalized-link')).toBe('https://example.com/news/1');
+      expect(getArticleIdentity(article, 'title-source')).toBe(
+        getArticleIdentity(
+          { link: 'https://other.com/copy', title: 'nvidia beats', source: 'example.com' },
+          'title-source',
+        ),
+      );
+      expect(getArticleIdentity(article, (item) => item.source)).toBe('Example.com');
+    });
+  });
+
+  describe('MemoryDedupStore', () => {
+    afterEach(() => jest.useRealTimers());
+
+    it('should report each identity as new once', async () => {
+      const store = new MemoryDedupStore();
+
+      expect(await store.add('a')).toBe(true);
+      expect(await store.add('a')).toBe(false);
+      expect(await store.add('b')).toBe(true);
+    });
+
+    it('should drop the least recently seen identity when full', async () => {
+      const store = new MemoryDedupStore({ maxEntries: 2 });
+      await store.add('a');
+      await store.add('b');
+      await store.add('a'); // 'a' is now the most recently seen
+
+      await store.add('c');
+
+      expect(store.size).toBe(2);
+      expect(await store.add('a')).toBe(false);
+      expect(await store.add('b')).toBe(true);
+    });
+
+    it('should forget identities after the TTL', async () => {
+      jest.useFakeTimers({ now: 1_000_000 });
+      const store = new MemoryDedupStore({ ttlMs: 1000 });
+      await store.add('a');
+
+      jest.setSystemTime(1_000_999);
+      expect(await store.add('a')).toBe(false);
+      jest.setSystemTime(1_001_000);
+      expect(await store.add('a')).toBe(true);
+    });
+  });
+
+  describe('FileDedupStore', () => {
+    let directory: string;
+    let path: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'finlight-dedup-'));
+      path = join(directory, 'seen.jsonl');
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should remember identities across instances', async () => {
+      const store = new FileDedupStore(path);
+      await Promise.all([store.add('a'), store.add('b')]);
+
+      const restarted = new FileDedupStore(path);
+
+      expect(await restarted.add('a')).toBe(false);
+      expect(await restarted.add('c')).toBe(true);
+    });
+
+    it('should skip expired and malformed lines when loading', async () => {
+      const future = Date.now() + 60_000;
+      await writeFile(path, `${JSON.stringify([future, 'a'])}\n${JSON.stringify([1, 'b'])}\n[${future}, "c`);
+
+      const store = new FileDedupStore(path);
+
+      expect(await store.add('a')).toBe(false);
+      expect(await store.add('b')).toBe(true);
+      expect(await store.add('c')).toBe(true);
+    });
+
+    it('should compact the file to the remembered identities', async () => {
+      const store = new FileDedupStore(path, { maxEntries: 2 });
+
+      for (const id of ['a', 'b', 'c', 'd']) {
+        await store.add(id);
+      }
+
+      const lines = (await readFile(path, 'utf8')).trim().split('\n');
+      expect(lines.map((line) => JSON.parse(line)[1])).toEqual(['c', 'd']);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { ApiClient } from '../client/apiClient';
+import { AbortError, NetworkError, NotFoundError, TimeoutError } from '../errors';
+import { noopLogger } from '../logger';
+import axios, { AxiosAdapter } from 'axios';
+import { AxiosTransport, FetchTransport, TransportRequest } from '../transport';
+import { defaultApiConfig } from '../types';
+
+describe('FetchTransport', () => {
+  const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+  // Never settles unless aborted, like a hanging connection
+  const hangingFetch = jest.fn(
+    (_input: RequestInfo | URL, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      }),
+  );
+
+  const captureError = (promise: Promise<unknown>): Promise<any> => promise.catch((e) => e);
+
+  const request = (overrides: Partial<TransportRequest> = {}): TransportRequest => ({
+    method: 'GET',
+    baseUrl: 'https://api.finlight.me',
+    url: '/v2/sources',
+    headers: { 'X-API-KEY': 'test' },
+    ...overrides,
+  });
+
+  it('should send GET params in the query string and parse JSON', async () => {
+    const fetchFn = jest.fn<Promise<Response>, [RequestInfo | URL, RequestInit?]>(() =>
+      Promise.resolve(jsonResponse(200, { ok: true }, { 'X-Request-Id': 'req-1' })),
+    );
+    const transport = new FetchTransport(fetchFn);
+
+    const response = await transport.request(
+      request({ url: '/v2/articles/by-link', params: { link: 'https://a.com/x?y=1', includeContent: true } }),
+    );
+
+    expect(response).toEqual({
+      status: 200,
+      headers: expect.objectContaining({ 'x-request-id': 'req-1' }),
+      data: { ok: true },
+    });
+    expect(String(fetchFn.mock.calls[0][0])).toBe(
+      'https://api.finlight.me/v2/articles/by-link?link=https%3A%2F%2Fa.com%2Fx%3Fy%3D1&includeContent=true',
+    );
+    expect(fetchFn.mock.calls[0][1]!.headers).toMatchObject({ 'X-API-KEY': 'test' });
+  });
+
+  it('should build the same query string as the axios transport', async () => {
+    const params = { tickers: ['AAPL', 'NVDA'], from: new Date('2024-01-01T00:00:00Z'), page: 2, language: undefined };
+    const fetchFn = jest.fn<Promise<Response>, [RequestInfo | URL, RequestInit?]>(() =>
+      Promise.resolve(jsonResponse(200, {})),
+    );
+    let axiosUrl = '';
+    const adapter: AxiosAdapter = (config) => {
+      axiosUrl = axios.getUri(config);
+      return Promise.resolve({ status: 200, statusText: 'OK', headers: {}, data: {}, config });
+    };
+
+    await new FetchTransport(fetchFn).request(request({ url: '/v2/articles', params }));
+    await new AxiosTransport(axios.create({ adapter })).request(request({ url: '/v2/articles', params }));
+
+    expect(String(fetchFn.mock.calls[0][0])).toBe(
+      'https://api.finlight.me/v2/articles?tickers=AAPL&tickers=NVDA&from=2024-01-01T00%3A00%3A00.000Z&page=2',
+    );
+    expect(axiosUrl).toBe(String(fetchFn.mock.calls[0][0]));
+  });
+
+  it('should send POST data as a JSON body', async () => {
+    const fetchFn = jest.fn<Promise<Response>, [RequestInfo | URL, RequestInit?]>(() =>
+      Promise.resolve(jsonResponse(200, {})),
+    );
+
+    await new FetchTransport(fetchFn).request(request({ method: 'POST', url: '/v2/articles', data: { query: 'x' } }));
+
+    const init = fetchFn.mock.calls[0][1]!;
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe('{"query":"x"}');
+    expect(init.headers).toMatchObject({ 'Content-Type': 'application/json' });
+  });
+
+  it('should throw a TimeoutError when the timeout elapses', async () => {
+    const error = await captureError(new FetchTransport(hangingFetch).request(request({ timeout: 10 })));
+
+    expect(error).toBeInstanceOf(TimeoutError);
+  });
+
+  it('should throw an AbortError when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const pending = new FetchTransport(hangingFetch).request(request({ signal: controller.signal }));
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('should report the system error code of network failures', async () => {
+    const failure = Object.assign(new TypeError('fetch failed'), {
+      cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }),
+    });
+    const transport = new FetchTransport(() => Promise.reject(failure));
+
+    const error = await captureError(transport.request(request()));
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.code).toBe('ECONNREFUSED');
+  });
+
+  it('should map statuses and retry like the axios transport', async () => {
+    const fetchFn = jest
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(503, { message: 'Down' }))
+      .mockResolvedValueOnce(jsonResponse(404, { message: 'Article not found' }, { 'x-request-id': 'req-2' }));
+    const client = new ApiClient({
+      ...defaultApiConfig,
+      apiKey: 'test',
+      transport: new FetchTransport(fetchFn),
+      retryPolicy: { baseDelayMs: 0 },
+      logger: noopLogger,
+    });
+
+    const error = await captureError(client.request('GET', '/v2/articles/by-link', { link: 'https://a.com' }));
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.requestId).toBe('req-2');
+    expect(error.message).toBe('Request failed with status 404: Article not found (GET /v2/articles/by-link)');
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -102,8 +102,8 @@ describe('API Integration Tests', () => {
 
         const response = await client.articles.fetchArticles({
           tickers: ['AAPL'],
-          from: fromDate.toISOString().split('T')[0], // YYYY-MM-DD format
-          to: toDate.toISOString().split('T')[0],
+          from: fromDate,
+          to: toDate,
           pageSize: 10,
         });
 
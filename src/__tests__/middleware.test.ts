@@ -0,0 +1,93 @@
+import { ApiClient } from '../client/apiClient';
+import { NetworkError, ServerError } from '../errors';
+import { noopLogger } from '../logger';
+import { Middleware } from '../middleware';
+import { Transport, TransportRequest, TransportResponse } from '../transport';
+import { defaultApiConfig } from '../types';
+
+describe('Middleware', () => {
+  const createClient = (responses: Array<TransportResponse | Error>) => {
+    const requests: TransportRequest[] = [];
+    const transport: Transport = {
+      request: <T>(request: TransportRequest) => {
+        requests.push(request);
+        const next = responses.shift()!;
+        return next instanceof Error ? Promise.reject(next) : Promise.resolve(next as TransportResponse<T>);
+      },
+    };
+    const client = new ApiClient({
+      ...defaultApiConfig,
+      apiKey: 'test',
+      transport,
+      retryPolicy: { baseDelayMs: 0 },
+      logger: noopLogger,
+    });
+    return { client, requests };
+  };
+
+  const ok = (data: unknown): TransportResponse => ({ status: 200, headers: {}, data });
+
+  it('should run middleware in the order they were added', async () => {
+    const { client, requests } = createClient([ok({})]);
+    const order: string[] = [];
+    const tag =
+      (name: string): Middleware =>
+      async (request, next) => {
+        order.push(`${name}:before`);
+        const response = await next({ ...request, headers: { ...request.headers, [`X-${name}`]: '1' } });
+        order.push(`${name}:after`);
+        return response;
+      };
+
+    client.use(tag('A')).use(tag('B'));
+    await client.request('GET', '/v2/sources');
+
+    expect(order).toEqual(['A:before', 'B:before', 'B:after', 'A:after']);
+    expect(requests[0].headers).toEqual({ 'X-API-KEY': 'test', 'X-A': '1', 'X-B': '1' });
+  });
+
+  it('should let middleware rewrite responses', async () => {
+    const { client } = createClient([ok([{ domain: 'reuters.com' }])]);
+    client.use(async (request, next) => {
+      const response = await next(request);
+      return { ...response, data: (response.data as { domain: string }[]).map((s) => s.domain) };
+    });
+
+    await expect(client.request('GET', '/v2/sources')).resolves.toEqual(['reuters.com']);
+  });
+
+  it('should short-circuit with a synthetic response', async () => {
+    const { client, requests } = createClient([]);
+    client.use(() => Promise.resolve(ok({ synthetic: true })));
+
+    await expect(client.request('GET', '/v2/sources')).resolves.toEqual({ synthetic: true });
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should see every retry attempt with its response or error', async () => {
+    const { client } = createClient([new NetworkError('reset'), { status: 503, headers: {}, data: {} }, ok('done')]);
+    const seen: string[] = [];
+    client.use(async (request, next) => {
+      try {
+        const response = await next(request);
+        seen.push(`status ${response.status}`);
+        return response;
+      } catch (error) {
+        seen.push((error as Error).name);
+        throw error;
+      }
+    });
+
+    await expect(client.request('GET', '/v2/sources')).resolves.toBe('done');
+    expect(seen).toEqual(['NetworkError', 'status 503', 'status 200']);
+  });
+
+  it('should map synthetic error responses like real ones', async () => {
+    const { client } = createClient([]);
+    client.use(() => Promise.resolve({ status: 500, headers: {}, data: { message: 'Maintenance' } }));
+
+    await expect(client.request('GET', '/v2/sources', undefined, { retryCount: 1 })).rejects.toBeInstanceOf(
+      ServerError,
+    );
+  });
+});
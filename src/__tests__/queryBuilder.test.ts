@@ -0,0 +1,54 @@
+import { q, QueryError, resolveQuery } from '../query';
+
+describe('QueryBuilder', () => {
+  it('should render boolean combinations with explicit parentheses', () => {
+    const query = q.ticker('AAPL').or(q.ticker('NVDA')).andNot(q.source('reuters.com'));
+
+    expect(query.toString()).toBe('(ticker:AAPL OR ticker:NVDA) AND NOT source:reuters.com');
+  });
+
+  it('should flatten chained operators of the same kind', () => {
+    expect(q.term('a').and(q.term('b')).and(q.term('c')).toString()).toBe('a AND b AND c');
+    expect(q.any(q.term('a'), q.term('b').or(q.term('c'))).toString()).toBe('a OR b OR c');
+  });
+
+  it('should parenthesize AND groups nested in OR groups', () => {
+    const query = q.all(q.ticker('AAPL'), q.phrase('earnings')).or(q.ticker('MSFT'));
+
+    expect(query.toString()).toBe('(ticker:AAPL AND "earnings") OR ticker:MSFT');
+  });
+
+  it('should quote and escape values that cannot be written bare', () => {
+    expect(q.phrase('Elon Musk').toString()).toBe('"Elon Musk"');
+    expect(q.title('rate cut').toString()).toBe('title:"rate cut"');
+    expect(q.term('say "hi"').toString()).toBe('"say \\"hi\\""');
+    expect(q.term('a:b').toString()).toBe('"a:b"');
+    expect(q.term('OR').toString()).toBe('"OR"');
+  });
+
+  it('should negate groups and cancel double negation', () => {
+    const group = q.country('US').or(q.country('GB'));
+
+    expect(group.not().toString()).toBe('NOT (country:US OR country:GB)');
+    expect(group.not().not().toString()).toBe('country:US OR country:GB');
+  });
+
+  it('should reject empty values', () => {
+    expect(() => q.ticker(' ')).toThrow(QueryError);
+  });
+
+  it('should refuse fields the raw stream does not support', () => {
+    const query = q.ticker('AAPL').and(q.title('iPhone')).and(q.exchange('NASDAQ'));
+
+    expect(query.build('rest')).toBe('ticker:AAPL AND title:iPhone AND exchange:NASDAQ');
+    expect(() => query.build('raw')).toThrow("Fields 'ticker:', 'exchange:' are not supported by the raw WebSocket");
+    expect(q.source('reuters.com').and(q.summary('merger')).build('raw')).toBe('source:reuters.com AND summary:merger');
+  });
+
+  it('should resolve strings and builders for a target', () => {
+    expect(resolveQuery('ticker:AAPL', 'raw')).toBe('ticker:AAPL');
+    expect(resolveQuery(undefined, 'rest')).toBeUndefined();
+    expect(() => resolveQuery(q.ticker('AAPL'), 'raw')).toThrow(QueryError);
+    expect(JSON.stringify({ query: q.ticker('AAPL') })).toBe('{"query":"ticker:AAPL"}');
+  });
+});
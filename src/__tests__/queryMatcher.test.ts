@@ -0,0 +1,74 @@
+import { compileQuery, matchesQuery, q } from '../query';
+import { Article, RawArticle } from '../types';
+
+describe('query matcher', () => {
+  const article: Article = {
+    link: 'https://www.reuters.com/markets/nvidia',
+    title: 'Nvidia beats estimates as AI demand soars',
+    summary: 'Elon  Musk comments on the results.',
+    content: 'Full text about data-center growth.',
+    publishDate: new Date('2024-05-22T20:00:00Z'),
+    source: 'www.reuters.com',
+    language: 'en',
+    countries: ['US'],
+    categories: ['markets', 'technology'],
+    companies: [
+      {
+        companyId: 1,
+        name: 'NVIDIA Corporation',
+        ticker: 'NVDA',
+        exchange: 'NASDAQ',
+        country: 'US',
+        isin: 'US67066G1040',
+        otherListings: [{ ticker: 'NVD', exchangeCode: 'XETRA', exchangeCountry: 'DE' }],
+      },
+    ],
+  };
+
+  const rawArticle: RawArticle = {
+    link: 'https://example.com/raw',
+    title: 'Apple unveils new iPhone',
+    publishDate: new Date('2024-09-10T17:00:00Z'),
+    source: 'example.com',
+    language: 'en',
+  };
+
+  it.each([
+    ['ticker:NVDA', true],
+    ['ticker:nvda', true],
+    ['ticker:NVD', true],
+    ['ticker:AMD', false],
+    ['isin:US67066G1040', true],
+    ['exchange:XETRA', true],
+    ['country:US', true],
+    ['country:DE', false],
+    ['category:technology', true],
+    ['source:reuters.com', true],
+    ['source:www.reuters.com', true],
+    ['source:ters.com', false],
+    ['title:Nvidia', true],
+    ['title:Musk', false],
+    ['summary:"Elon Musk"', true],
+    ['content:data', true],
+    ['"AI demand"', true],
+    ['"demand AI"', false],
+    ['estimate', false],
+    ['(ticker:NVDA OR ticker:AMD) AND NOT source:bloomberg.com', true],
+    ['ticker:NVDA AND NOT source:reuters.com', false],
+    ['foo:bar', false],
+  ])('should evaluate %p against an article', (query, expected) => {
+    expect(matchesQuery(article, query)).toBe(expected);
+  });
+
+  it('should evaluate raw articles without enrichment', () => {
+    expect(matchesQuery(rawArticle, 'title:iPhone AND source:example.com')).toBe(true);
+    expect(matchesQuery(rawArticle, 'ticker:AAPL')).toBe(false);
+    expect(matchesQuery(rawArticle, 'NOT ticker:AAPL')).toBe(true);
+  });
+
+  it('should accept builders and reuse compiled predicates', () => {
+    const isNvidia = compileQuery(q.ticker('NVDA').or(q.title('Nvidia')));
+
+    expect([article, rawArticle].filter(isNvidia)).toEqual([article]);
+  });
+});
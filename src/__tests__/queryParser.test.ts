@@ -0,0 +1,131 @@
+import { normalizeQuery, parseQuery, QuerySyntaxError, validateQuery } from '../query';
+
+describe('query parser', () => {
+  describe('parseQuery', () => {
+    it('should parse operators with precedence and positions', () => {
+      const ast = parseQuery('(ticker:AAPL OR ticker:NVDA) AND NOT source:reuters.com');
+
+      expect(ast).toEqual({
+        type: 'and',
+        span: { start: 0, end: 55 },
+        children: [
+          {
+            type: 'or',
+            span: { start: 0, end: 28 },
+            children: [
+              { type: 'field', field: 'ticker', value: 'AAPL', span: { start: 1, end: 12 } },
+              { type: 'field', field: 'ticker', value: 'NVDA', span: { start: 16, end: 27 } },
+            ],
+          },
+          {
+            type: 'not',
+            span: { start: 33, end: 55 },
+            child: { type: 'field', field: 'source', value: 'reuters.com', span: { start: 37, end: 55 } },
+          },
+        ],
+      });
+    });
+
+    it('should bind AND tighter than OR and treat adjacent terms as AND', () => {
+      expect(normalizeQuery('a OR b AND c')).toBe('a OR (b AND c)');
+      expect(normalizeQuery('Tesla earnings OR ticker:TSLA')).toBe('(Tesla AND earnings) OR ticker:TSLA');
+    });
+
+    it('should parse phrases and quoted field values with escapes', () => {
+      expect(parseQuery('"Elon Musk"')).toMatchObject({ type: 'phrase', value: 'Elon Musk' });
+      expect(parseQuery('title:"say \\"hi\\""')).toMatchObject({
+        type: 'field',
+        field: 'title',
+        value: 'say "hi"',
+        quoted: true,
+      });
+    });
+
+    it('should treat lower case operators as search terms', () => {
+      expect(normalizeQuery('rock and roll')).toBe('rock AND and AND roll');
+      expect(normalizeQuery('a and b')).toBe('a AND and AND b');
+      expect(normalizeQuery('"AND" or')).toBe('"AND" AND or');
+    });
+
+    it.each([
+      ['', 'Query is empty', 0],
+      ['(ticker:AAPL', "Missing closing parenthesis for '('", 0],
+      ['ticker:AAPL)', "Unexpected ')' without matching '('", 11],
+      ['ticker:AAPL AND', "Expected a term after 'AND'", 12],
+      ['OR ticker:AAPL', "Unexpected 'OR'", 0],
+      ['ticker:AAPL AND OR b', "Expected a term after 'AND'", 12],
+      ['NOT', "Expected a term after 'NOT'", 0],
+      ['()', 'Empty parentheses', 0],
+      ['"Elon Musk', 'Unterminated quote', 0],
+      ['ticker: AAPL', "Missing value for field 'ticker:'", 0],
+    ])('should report a syntax error for %p', (query, reason, position) => {
+      let error: unknown;
+      try {
+        parseQuery(query);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(QuerySyntaxError);
+      expect((error as QuerySyntaxError).reason).toBe(reason);
+      expect((error as QuerySyntaxError).position).toBe(position);
+    });
+
+    it('should point at the error position in the message', () => {
+      expect(() => parseQuery('ticker:AAPL)')).toThrow(
+        "Unexpected ')' without matching '(' at position 11\n  ticker:AAPL)\n             ^",
+      );
+    });
+  });
+
+  describe('normalizeQuery', () => {
+    it('should print a canonical form', () => {
+      expect(normalizeQuery('ticker:AAPL  "rate cut" OR(ticker:MSFT)')).toBe(
+        '(ticker:AAPL AND "rate cut") OR ticker:MSFT',
+      );
+      expect(normalizeQuery('(a AND b) AND (c AND d)')).toBe('a AND b AND c AND d');
+      expect(normalizeQuery('title:"iPhone"')).toBe('title:"iPhone"');
+    });
+
+    it('should round-trip its own output', () => {
+      const normalized = normalizeQuery('NOT (a OR "b c") title:"x y" OR NOT NOT d');
+      expect(normalizeQuery(normalized)).toBe(normalized);
+    });
+  });
+
+  describe('validateQuery', () => {
+    it('should accept valid queries and return the normalized form', () => {
+      const result = validateQuery('ticker:AAPL AND "earnings"', 'websocket');
+
+      expect(result.valid).toBe(true);
+      expect(result.issues).toEqual([]);
+      expect(result.normalized).toBe('ticker:AAPL AND "earnings"');
+    });
+
+    it('should report every unknown and unsupported field', () => {
+      const result = validateQuery('ticker:AAPL AND foo:bar AND title:iPhone', 'raw');
+
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        {
+          code: 'unsupported_field',
+          message: "Field 'ticker:' is not supported by the raw WebSocket",
+          span: { start: 0, end: 11 },
+        },
+        {
+          code: 'unknown_field',
+          message: "Unknown field 'foo:'. Supported fields: source, title, summary",
+          span: { start: 16, end: 23 },
+        },
+      ]);
+    });
+
+    it('should report syntax errors as issues instead of throwing', () => {
+      const result = validateQuery('(ticker:AAPL');
+
+      expect(result.valid).toBe(false);
+      expect(result.issues[0].code).toBe('syntax');
+      expect(result.issues[0].span).toEqual({ start: 0, end: 1 });
+    });
+  });
+});
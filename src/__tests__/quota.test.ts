@@ -0,0 +1,164 @@
+import { ApiClient } from '../client/apiClient';
+import { RateLimitError } from '../errors';
+import { noopLogger } from '../logger';
+import { QuotaThresholdEvent, QuotaTracker, parseRateLimitHeaders } from '../quota';
+import { SourceService } from '../services/sourceService';
+import { Transport, TransportRequest, TransportResponse } from '../transport';
+import { defaultApiConfig } from '../types';
+
+describe('Quota tracking', () => {
+  const now = 1_700_000_000_000;
+
+  const captureError = (promise: Promise<unknown>): Promise<any> => promise.catch((e) => e);
+
+  describe('parseRateLimitHeaders', () => {
+    it('should read X-RateLimit headers with the reset in seconds from now', () => {
+      expect(
+        parseRateLimitHeaders(
+          { 'x-ratelimit-limit': '100', 'x-ratelimit-remaining': '42', 'x-ratelimit-reset': '30' },
+          now,
+        ),
+      ).toEqual({ limit: 100, remaining: 42, resetAt: now + 30_000 });
+    });
+
+    it('should read unprefixed RateLimit headers and epoch resets', () => {
+      expect(parseRateLimitHeaders({ 'RateLimit-Limit': '100;w=60', 'RateLimit-Reset': '1700000060' }, now)).toEqual({
+        limit: 100,
+        resetAt: 1_700_000_060_000,
+      });
+      expect(parseRateLimitHeaders({ 'x-ratelimit-reset': String(now + 5000) }, now)).toEqual({ resetAt: now + 5000 });
+    });
+
+    it('should ignore missing and malformed values', () => {
+      expect(parseRateLimitHeaders({ 'x-ratelimit-remaining': 'many', 'content-type': 'application/json' })).toEqual(
+        {},
+      );
+    });
+  });
+
+  describe('QuotaTracker', () => {
+    const headers = (remaining: number) => ({ 'x-ratelimit-limit': '100', 'x-ratelimit-remaining': String(remaining) });
+
+    it('should report each threshold once per window', () => {
+      const events: QuotaThresholdEvent[] = [];
+      const tracker = new QuotaTracker({ thresholds: [0.5, 0.1], onThreshold: (event) => events.push(event) });
+
+      [60, 50, 40, 5, 4].forEach((remaining) => tracker.updateFromResponse(200, headers(remaining), now));
+      // The window resets
+      [100, 50].forEach((remaining) => tracker.updateFromResponse(200, headers(remaining), now));
+
+      expect(events.map((event) => [event.threshold, event.remaining])).toEqual([
+        [0.5, 50],
+        [0.1, 5],
+        [0.5, 50],
+      ]);
+    });
+
+    it('should read a 429 without rate-limit headers as exhausted until Retry-After', () => {
+      const tracker = new QuotaTracker();
+      tracker.updateFromResponse(200, headers(10), now);
+
+      tracker.updateFromResponse(429, { 'retry-after': '20' }, now);
+
+      expect(tracker.getSnapshot()).toEqual({ limit: 100, remaining: 0, resetAt: now + 20_000, updatedAt: now });
+    });
+
+    it('should record the connection allowance from a WebSocket admission', () => {
+      const tracker = new QuotaTracker();
+
+      tracker.updateFromAdmission({ action: 'admit', leaseId: 'l-1', maxConnections: 3, activeConnections: '2' }, now);
+      tracker.updateFromAdmission({ action: 'admit', leaseId: 'l-2' }, now + 1);
+
+      expect(tracker.getSnapshot()).toEqual({ connectionLimit: 3, activeConnections: 2, updatedAt: now });
+    });
+  });
+
+  describe('in ApiClient', () => {
+    const createClient = (responses: TransportResponse[], config: Partial<typeof defaultApiConfig> = {}) => {
+      const request = jest.fn<Promise<TransportResponse>, [TransportRequest]>(() =>
+        Promise.resolve(responses.length > 1 ? responses.shift()! : responses[0]),
+      );
+      const transport: Transport = { request: request as Transport['request'] };
+      const client = new ApiClient({
+        ...defaultApiConfig,
+        apiKey: 'test',
+        transport,
+        retryPolicy: { baseDelayMs: 0 },
+        logger: noopLogger,
+        ...config,
+      });
+      return { client, request };
+    };
+
+    it('should update the quota from successful and failed responses', async () => {
+      const { client } = createClient([
+        { status: 200, headers: { 'x-ratelimit-limit': '100', 'x-ratelimit-remaining': '7' }, data: [] },
+        { status: 429, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '60' }, data: {} },
+      ]);
+
+      await client.request('GET', '/v2/sources');
+      expect(client.quota.getSnapshot()).toMatchObject({ limit: 100, remaining: 7 });
+
+      const error = await captureError(client.request('GET', '/v2/sources', undefined, { retryCount: 1 }));
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(client.quota.getSnapshot()).toMatchObject({ limit: 100, remaining: 0, resetAt: expect.any(Number) });
+    });
+
+    it('should not fail or retry a successful response when onThreshold throws', async () => {
+      const onThreshold = jest.fn(() => {
+        throw new Error('callback failed');
+      });
+      const { client, request } = createClient(
+        [{ status: 200, headers: { 'x-ratelimit-limit': '100', 'x-ratelimit-remaining': '5' }, data: ['ok'] }],
+        { quota: { onThreshold } },
+      );
+
+      await expect(client.request('GET', '/v2/sources')).resolves.toEqual(['ok']);
+      expect(onThreshold).toHaveBeenCalled();
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resolve response metadata', async () => {
+      const { client } = createClient([
+        { status: 503, headers: {}, data: {} },
+        { status: 200, headers: { 'x-request-id': 'req-1' }, data: { ok: true } },
+      ]);
+
+      const result = await client.requestWithMetadata('GET', '/v2/sources');
+
+      expect(result).toEqual({
+        data: { ok: true },
+        metadata: {
+          status: 200,
+          headers: { 'x-request-id': 'req-1' },
+          requestId: 'req-1',
+          durationMs: expect.any(Number),
+          attempts: 2,
+          cached: false,
+        },
+      });
+    });
+
+    it('should flag responses served from the cache', async () => {
+      const { client, request } = createClient([{ status: 200, headers: {}, data: [] }], { cache: true });
+
+      await client.requestWithMetadata('GET', '/v2/sources');
+      const cached = await client.requestWithMetadata('GET', '/v2/sources');
+
+      expect(cached.metadata.cached).toBe(true);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return metadata from service methods on request', async () => {
+      const source = { domain: 'example.com', isContentAvailable: true, isDefaultSource: true };
+      const { client } = createClient([{ status: 200, headers: { 'x-ratelimit-remaining': '9' }, data: [source] }]);
+      const service = new SourceService(client);
+
+      await expect(service.getSources()).resolves.toEqual([source]);
+      const { data, metadata } = await service.getSources({ includeMetadata: true });
+
+      expect(data).toEqual([source]);
+      expect(metadata.headers['x-ratelimit-remaining']).toBe('9');
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { AbortError } from '../errors';
+import { RateLimiter } from '../rateLimit';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>((r) => (resolve = r));
+    return { promise, resolve };
+  };
+
+  it('should cap the number of tasks in flight', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const results = gates.map((gate, i) =>
+      limiter.schedule(async () => {
+        started.push(i);
+        await gate.promise;
+        return i;
+      }),
+    );
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(started).toEqual([0, 1]);
+    expect(limiter.getStats()).toMatchObject({ inFlight: 2, queueDepth: 1 });
+
+    gates[0].resolve();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(started).toEqual([0, 1, 2]);
+    gates[1].resolve();
+    gates[2].resolve();
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2]);
+  });
+
+  it('should start higher priority tasks first', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const gate = deferred();
+    const order: string[] = [];
+
+    const blocker = limiter.schedule(() => gate.promise);
+    const tasks = [
+      limiter.schedule(() => Promise.resolve(order.push('low')), -1),
+      limiter.schedule(() => Promise.resolve(order.push('normal'))),
+      limiter.schedule(() => Promise.resolve(order.push('high')), 10),
+      limiter.schedule(() => Promise.resolve(order.push('normal-2'))),
+    ];
+
+    gate.resolve();
+    await blocker;
+    await Promise.all(tasks);
+
+    expect(order).toEqual(['high', 'normal', 'normal-2', 'low']);
+  });
+
+  it('should limit the request rate with a token bucket', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2, burst: 2 });
+    let completed = 0;
+
+    for (let i = 0; i < 5; i++) {
+      void limiter.schedule(() => Promise.resolve(completed++));
+    }
+    await jest.advanceTimersByTimeAsync(0);
+    expect(completed).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(completed).toBe(3);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(completed).toBe(5);
+    expect(limiter.getStats().maxWaitMs).toBeGreaterThanOrEqual(1500);
+  });
+
+  it('should slow down and pause after a 429 and recover on success', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10 });
+
+    limiter.onRateLimited(2000);
+    expect(limiter.getStats()).toMatchObject({ currentRate: 5, rateLimitedCount: 1 });
+
+    let ran = false;
+    void limiter.schedule(() => Promise.resolve((ran = true)));
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(ran).toBe(false);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(ran).toBe(true);
+
+    limiter.onSuccess();
+    expect(limiter.getStats().currentRate).toBe(5.5);
+  });
+
+  it('should drop a task aborted while the queue is paused without using a token', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, burst: 1, adaptive: true });
+    limiter.onRateLimited(5000);
+    const controller = new AbortController();
+    const task = jest.fn(() => Promise.resolve('search'));
+
+    const pending = limiter.schedule(task, 0, controller.signal);
+    const next = limiter.schedule(() => Promise.resolve('next'));
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(limiter.getStats().queueDepth).toBe(1);
+    await jest.advanceTimersByTimeAsync(5000);
+    await expect(next).resolves.toBe('next');
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should reject right away when the signal is already aborted', async () => {
+    const limiter = new RateLimiter();
+    const controller = new AbortController();
+    controller.abort();
+    const task = jest.fn(() => Promise.resolve());
+
+    await expect(limiter.schedule(task, 0, controller.signal)).rejects.toBeInstanceOf(AbortError);
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should propagate task errors', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+
+    await expect(limiter.schedule(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limiter.schedule(() => Promise.resolve('next'))).resolves.toBe('next');
+  });
+});
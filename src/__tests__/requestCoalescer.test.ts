@@ -0,0 +1,91 @@
+import { RequestCoalescer } from '../client/requestCoalescer';
+import { AbortError } from '../errors';
+
+describe('RequestCoalescer', () => {
+  const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  it('should share one request between concurrent callers', async () => {
+    const coalescer = new RequestCoalescer();
+    const response = deferred<string>();
+    const execute = jest.fn(() => response.promise);
+
+    const calls = [coalescer.run('a', execute), coalescer.run('a', execute), coalescer.run('b', execute)];
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(coalescer.size).toBe(2);
+
+    response.resolve('ok');
+    await expect(Promise.all(calls)).resolves.toEqual(['ok', 'ok', 'ok']);
+    expect(coalescer.size).toBe(0);
+  });
+
+  it('should not keep results after the request settles', async () => {
+    const coalescer = new RequestCoalescer();
+    const execute = jest.fn(() => Promise.resolve('ok'));
+
+    await coalescer.run('a', execute);
+    await coalescer.run('a', execute);
+
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share failures', async () => {
+    const coalescer = new RequestCoalescer();
+    const response = deferred<string>();
+
+    const calls = [coalescer.run('a', () => response.promise), coalescer.run('a', () => response.promise)];
+    response.reject(new Error('boom'));
+
+    await expect(calls[0]).rejects.toThrow('boom');
+    await expect(calls[1]).rejects.toThrow('boom');
+  });
+
+  it('should let each caller abort without affecting the others', async () => {
+    const coalescer = new RequestCoalescer();
+    const response = deferred<string>();
+    let sharedSignal!: AbortSignal;
+    const execute = (signal: AbortSignal) => {
+      sharedSignal = signal;
+      return response.promise;
+    };
+    const controller = new AbortController();
+
+    const aborted = coalescer.run('a', execute, controller.signal);
+    const other = coalescer.run('a', execute);
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+    expect(sharedSignal.aborted).toBe(false);
+    response.resolve('ok');
+    await expect(other).resolves.toBe('ok');
+  });
+
+  it('should abort the shared request once every caller aborted', async () => {
+    const coalescer = new RequestCoalescer();
+    let sharedSignal!: AbortSignal;
+    const execute = (signal: AbortSignal) => {
+      sharedSignal = signal;
+      return new Promise<string>(() => {});
+    };
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const calls = [coalescer.run('a', execute, first.signal), coalescer.run('a', execute, second.signal)];
+    first.abort();
+    second.abort();
+
+    await expect(Promise.allSettled(calls)).resolves.toEqual([
+      { status: 'rejected', reason: expect.any(AbortError) },
+      { status: 'rejected', reason: expect.any(AbortError) },
+    ]);
+    expect(sharedSignal.aborted).toBe(true);
+    expect(coalescer.size).toBe(0);
+  });
+});
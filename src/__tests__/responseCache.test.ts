@@ -0,0 +1,148 @@
+import {
+  CacheEntry,
+  CacheStore,
+  MemoryCacheStore,
+  ResponseCache,
+  createCacheKey,
+  createCacheNamespace,
+} from '../cache';
+import { noopLogger } from '../logger';
+
+describe('ResponseCache', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.parse('2024-01-01T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const loader = () => {
+    let calls = 0;
+    return jest.fn(() => Promise.resolve({ call: ++calls }));
+  };
+
+  it('should serve fresh entries and expire them after the endpoint TTL', async () => {
+    const cache = new ResponseCache({ endpointTtls: { '/v2/sources': 1000 } }, noopLogger);
+    const load = loader();
+
+    await expect(cache.fetch('GET', '/v2/sources', undefined, load)).resolves.toEqual({ call: 1 });
+    await expect(cache.fetch('GET', '/v2/sources', undefined, load)).resolves.toEqual({ call: 1 });
+
+    jest.advanceTimersByTime(1000);
+    await expect(cache.fetch('GET', '/v2/sources', undefined, load)).resolves.toEqual({ call: 2 });
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 2 });
+  });
+
+  it('should not cache endpoints without a TTL', async () => {
+    const cache = new ResponseCache({}, noopLogger);
+    const load = loader();
+
+    await cache.fetch('POST', '/v2/articles', { query: 'Tesla' }, load);
+    await cache.fetch('POST', '/v2/articles', { query: 'Tesla' }, load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(cache.getStats().misses).toBe(0);
+  });
+
+  it('should key entries by normalized params', async () => {
+    const cache = new ResponseCache({ ttlMs: 1000 }, noopLogger);
+    const load = loader();
+
+    await cache.fetch('POST', '/v2/articles', { query: 'Tesla', pageSize: 10, page: undefined }, load);
+    await cache.fetch('POST', '/v2/articles', { pageSize: 10, query: 'Tesla' }, load);
+    await cache.fetch('POST', '/v2/articles', { pageSize: 20, query: 'Tesla' }, load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(createCacheKey('get', '/a', { b: 1, a: [{ d: 1, c: 2 }] })).toBe('GET /a {"a":[{"c":2,"d":1}],"b":1}');
+  });
+
+  it('should keep entries of different namespaces apart in a shared store', async () => {
+    const store = new MemoryCacheStore();
+    const first = new ResponseCache(
+      { ttlMs: 1000, store, namespace: createCacheNamespace('https://a', 'key-1') },
+      noopLogger,
+    );
+    const second = new ResponseCache(
+      { ttlMs: 1000, store, namespace: createCacheNamespace('https://a', 'key-2') },
+      noopLogger,
+    );
+    const load = loader();
+
+    await first.fetch('GET', '/v2/sources', undefined, load);
+    await expect(second.fetch('GET', '/v2/sources', undefined, load)).resolves.toEqual({ call: 2 });
+    await expect(first.fetch('GET', '/v2/sources', undefined, load)).resolves.toEqual({ call: 1 });
+    expect(createCacheNamespace('https://a', 'key-1')).not.toContain('key-1');
+    expect(createCacheNamespace('https://b', 'key-1')).not.toBe(createCacheNamespace('https://a', 'key-1'));
+  });
+
+  it('should serve stale entries while revalidating in the background', async () => {
+    const cache = new ResponseCache({ ttlMs: 1000, staleWhileRevalidateMs: 5000 }, noopLogger);
+    const load = loader();
+
+    await cache.fetch('POST', '/v2/articles', { query: 'Tesla' }, load, 'refresh');
+    jest.advanceTimersByTime(1500);
+
+    await expect(cache.fetch('POST', '/v2/articles', { query: 'Tesla' }, load)).resolves.toEqual({ call: 1 });
+    await jest.advanceTimersByTimeAsync(0);
+    await expect(cache.fetch('POST', '/v2/articles', { query: 'Tesla' }, load)).resolves.toEqual({ call: 2 });
+    expect(cache.getStats()).toMatchObject({ hits: 1, staleHits: 1, revalidations: 1 });
+  });
+
+  it('should honor bypass and refresh per call', async () => {
+    const cache = new ResponseCache({ ttlMs: 1000 }, noopLogger);
+    const load = loader();
+
+    await cache.fetch('GET', '/v2/sources', undefined, load);
+    await expect(cache.fetch('GET', '/v2/sources', undefined, load, 'bypass')).resolves.toEqual({ call: 2 });
+    await expect(cache.fetch('GET', '/v2/sources', undefined, load)).resolves.toEqual({ call: 1 });
+    await expect(cache.fetch('GET', '/v2/sources', undefined, load, 'refresh')).resolves.toEqual({ call: 3 });
+    await expect(cache.fetch('GET', '/v2/sources', undefined, load)).resolves.toEqual({ call: 3 });
+  });
+
+  it('should fall back to the network when the store fails', async () => {
+    const failingStore: CacheStore = {
+      get: () => Promise.reject(new Error('down')),
+      set: () => Promise.reject(new Error('down')),
+      delete: () => Promise.resolve(),
+      clear: () => Promise.resolve(),
+    };
+    const cache = new ResponseCache({ ttlMs: 1000, store: failingStore }, noopLogger);
+
+    await expect(cache.fetch('GET', '/v2/sources', undefined, loader())).resolves.toEqual({ call: 1 });
+    expect(cache.getStats().storeErrors).toBe(2);
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  const entry = (value: unknown): CacheEntry => ({
+    value,
+    storedAt: Date.now(),
+    expiresAt: Date.now() + 1000,
+    staleUntil: Date.now() + 1000,
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', entry(1));
+    await store.set('b', entry(2));
+    await store.get('a');
+    await store.set('c', entry(3));
+
+    expect(store.size).toBe(2);
+    await expect(store.get('b')).resolves.toBeUndefined();
+    await expect(store.get('a')).resolves.toMatchObject({ value: 1 });
+  });
+
+  it('should return copies so cached values cannot be mutated', async () => {
+    const store = new MemoryCacheStore();
+    const value = { sources: ['a'] };
+    await store.set('key', entry(value));
+    value.sources.push('b');
+
+    const cached = (await store.get('key'))!.value as typeof value;
+    cached.sources.push('c');
+
+    await expect(store.get('key')).resolves.toMatchObject({ value: { sources: ['a'] } });
+  });
+});
@@ -0,0 +1,102 @@
+import { NetworkError, NotFoundError, RateLimitError, ServerError, TimeoutError } from '../errors';
+import { computeRetryDelay, exceedsMaxDelay, isRetryable, resolveRetryPolicy } from '../retry';
+
+describe('retryPolicy', () => {
+  describe('resolveRetryPolicy', () => {
+    it('should use retryCount as maxAttempts when the policy does not set it', () => {
+      expect(resolveRetryPolicy({}, 5).maxAttempts).toBe(5);
+      expect(resolveRetryPolicy({ maxAttempts: 2 }, 5).maxAttempts).toBe(2);
+    });
+
+    it('should keep defaults for options explicitly set to undefined', () => {
+      expect(resolveRetryPolicy({ jitter: undefined }).jitter).toBe('full');
+    });
+  });
+
+  describe('isRetryable', () => {
+    const policy = resolveRetryPolicy();
+
+    it('should retry rate limits, server errors and network errors by default', () => {
+      expect(isRetryable(policy, new RateLimitError('', { status: 429 }), 1)).toBe(true);
+      expect(isRetryable(policy, new ServerError('', { status: 503 }), 1)).toBe(true);
+      expect(isRetryable(policy, new NetworkError('', { code: 'ECONNRESET' }), 1)).toBe(true);
+      expect(isRetryable(policy, new TimeoutError(''), 1)).toBe(true);
+    });
+
+    it('should not retry client errors or disabled network errors', () => {
+      expect(isRetryable(policy, new NotFoundError('', { status: 404 }), 1)).toBe(false);
+      expect(isRetryable(policy, new ServerError('', { status: 501 }), 1)).toBe(false);
+
+      const strict = resolveRetryPolicy({ retryOnNetworkErrors: false });
+      expect(isRetryable(strict, new NetworkError(''), 1)).toBe(false);
+    });
+
+    it('should defer to a custom predicate', () => {
+      const custom = resolveRetryPolicy({ shouldRetry: (error) => error.status === 404 });
+      expect(isRetryable(custom, new NotFoundError('', { status: 404 }), 1)).toBe(true);
+      expect(isRetryable(custom, new ServerError('', { status: 503 }), 1)).toBe(false);
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    const error = new ServerError('', { status: 500 });
+
+    it('should grow exponentially without jitter', () => {
+      const policy = resolveRetryPolicy({ jitter: 'none', baseDelayMs: 100, maxDelayMs: 1000 });
+
+      expect(computeRetryDelay(policy, 1, error)).toBe(100);
+      expect(computeRetryDelay(policy, 2, error)).toBe(200);
+      expect(computeRetryDelay(policy, 3, error)).toBe(400);
+      expect(computeRetryDelay(policy, 10, error)).toBe(1000);
+    });
+
+    it('should keep jittered delays within bounds', () => {
+      const full = resolveRetryPolicy({ jitter: 'full', baseDelayMs: 100 });
+      const equal = resolveRetryPolicy({ jitter: 'equal', baseDelayMs: 100 });
+      const decorrelated = resolveRetryPolicy({ jitter: 'decorrelated', baseDelayMs: 100, maxDelayMs: 1000 });
+
+      for (let i = 0; i < 50; i++) {
+        expect(computeRetryDelay(full, 3, error)).toBeLessThanOrEqual(400);
+        expect(computeRetryDelay(equal, 3, error)).toBeGreaterThanOrEqual(200);
+        expect(computeRetryDelay(equal, 3, error)).toBeLessThanOrEqual(400);
+        const delay = computeRetryDelay(decorrelated, 3, error, 500);
+        expect(delay).toBeGreaterThanOrEqual(100);
+        expect(delay).toBeLessThanOrEqual(1000);
+      }
+    });
+
+    it('should honor Retry-After unless disabled', () => {
+      const rateLimited = new RateLimitError('', { status: 429, retryAfterMs: 12000 });
+
+      expect(computeRetryDelay(resolveRetryPolicy({ jitter: 'none' }), 1, rateLimited)).toBe(12000);
+      expect(computeRetryDelay(resolveRetryPolicy({ respectRetryAfter: false, jitter: 'none' }), 1, rateLimited)).toBe(
+        500,
+      );
+    });
+
+    it('should add bounded jitter on top of Retry-After without exceeding maxDelayMs', () => {
+      const rateLimited = new RateLimitError('', { status: 429, retryAfterMs: 12000 });
+      const nearCap = new RateLimitError('', { status: 429, retryAfterMs: 29800 });
+      const policy = resolveRetryPolicy();
+
+      for (let i = 0; i < 50; i++) {
+        const delay = computeRetryDelay(policy, 1, rateLimited);
+        expect(delay).toBeGreaterThanOrEqual(12000);
+        expect(delay).toBeLessThanOrEqual(12500);
+        expect(computeRetryDelay(policy, 1, nearCap)).toBeGreaterThanOrEqual(29800);
+        expect(computeRetryDelay(policy, 1, nearCap)).toBeLessThanOrEqual(30000);
+      }
+    });
+  });
+
+  describe('exceedsMaxDelay', () => {
+    it('should flag a Retry-After longer than maxDelayMs unless Retry-After is ignored', () => {
+      const rateLimited = new RateLimitError('', { status: 429, retryAfterMs: 3_600_000 });
+
+      expect(exceedsMaxDelay(resolveRetryPolicy(), rateLimited)).toBe(true);
+      expect(exceedsMaxDelay(resolveRetryPolicy({ maxDelayMs: 3_600_000 }), rateLimited)).toBe(false);
+      expect(exceedsMaxDelay(resolveRetryPolicy({ respectRetryAfter: false }), rateLimited)).toBe(false);
+      expect(exceedsMaxDelay(resolveRetryPolicy(), new ServerError('', { status: 503 }))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { ApiClient } from '../client/apiClient';
+import { ArticleService } from '../services/articleService';
+import { SourceService } from '../services/sourceService';
+import { ARTICLE_SCHEMA, PayloadValidationError, PayloadValidator, SOURCE_SCHEMA, checkPayload } from '../schema';
+import { Logger } from '../logger';
+
+describe('Payload schema validation', () => {
+  // Services read responses through requestWithMetadata; tests assert on the plain request mock
+  const mockApiClient = (request: (...args: any[]) => unknown) =>
+    ({
+      request,
+      requestWithMetadata: (...args: unknown[]) =>
+        Promise.resolve(request(...args)).then((data) => ({ data, metadata: {} })),
+    }) as unknown as ApiClient;
+
+  const rawArticle = {
+    link: 'https://example.com/a',
+    title: 'Apple beats estimates',
+    publishDate: '2024-01-01T00:00:00Z',
+    source: 'example.com',
+    language: 'en',
+    sentiment: 'Positive',
+    confidence: '0.91',
+    createdAt: 1704067260000,
+    companies: [
+      {
+        companyId: '42',
+        confidence: '0',
+        name: 'Apple Inc.',
+        ticker: 'AAPL',
+        primaryListing: { ticker: 'AAPL', exchangeCode: 'XNAS', exchangeCountry: 'US' },
+      },
+    ],
+  };
+
+  const captureError = (fn: () => unknown): any => {
+    try {
+      fn();
+    } catch (error) {
+      return error;
+    }
+  };
+
+  describe('checkPayload', () => {
+    it('should coerce numeric strings and dates', () => {
+      const { value, issues } = checkPayload<any>(ARTICLE_SCHEMA, rawArticle);
+
+      expect(issues).toEqual([]);
+      expect(value.publishDate).toEqual(new Date('2024-01-01T00:00:00Z'));
+      expect(value.createdAt).toEqual(new Date(1704067260000));
+      expect(value.confidence).toBe(0.91);
+      expect(value.sentiment).toBe('positive');
+      expect(value.companies[0].companyId).toBe(42);
+      expect(value.companies[0].confidence).toBe(0);
+    });
+
+    it('should report missing required fields and invalid values with their path', () => {
+      const { issues } = checkPayload(ARTICLE_SCHEMA, {
+        ...rawArticle,
+        title: undefined,
+        publishDate: 'yesterday',
+        sentiment: 'bullish',
+        images: ['https://example.com/a.png', 3],
+        companies: [{ companyId: 'n/a', name: 'Apple Inc.', ticker: 'AAPL' }],
+      });
+
+      expect(issues).toEqual([
+        { path: 'title', message: 'is required' },
+        { path: 'publishDate', message: 'expected an ISO 8601 date string or epoch ms, got "yesterday"' },
+        { path: 'sentiment', message: 'expected one of positive, negative, neutral, got "bullish"' },
+        { path: 'images[1]', message: 'expected a string, got 3' },
+        { path: 'companies[0].companyId', message: 'expected a number or numeric string, got "n/a"' },
+      ]);
+    });
+
+    it('should reject payloads that are not objects', () => {
+      const { issues } = checkPayload(SOURCE_SCHEMA, ['example.com']);
+
+      expect(issues).toEqual([{ path: '(root)', message: 'expected an object, got an array' }]);
+    });
+
+    it('should preserve unknown fields by default and strip them on request', () => {
+      const payload = { ...rawArticle, authors: 'Jane Doe' };
+
+      expect(checkPayload<any>(ARTICLE_SCHEMA, payload).value.authors).toBe('Jane Doe');
+      const stripped = checkPayload<any>(ARTICLE_SCHEMA, payload, { unknownFields: 'strip' }).value;
+      expect(stripped).not.toHaveProperty('authors');
+      expect(stripped.companies[0]).toHaveProperty('primaryListing');
+    });
+
+    it('should drop optional fields that are null', () => {
+      const { value, issues } = checkPayload<any>(ARTICLE_SCHEMA, { ...rawArticle, summary: null });
+
+      expect(issues).toEqual([]);
+      expect(value).not.toHaveProperty('summary');
+    });
+  });
+
+  describe('PayloadValidator', () => {
+    it('should throw a PayloadValidationError in strict mode', () => {
+      const validator = new PayloadValidator({ mode: 'strict' });
+
+      const error = captureError(() => validator.article({ ...rawArticle, link: 42 }));
+
+      expect(error).toBeInstanceOf(PayloadValidationError);
+      expect(error.payloadType).toBe('Article');
+      expect(error.issues).toEqual([{ path: 'link', message: 'expected a string, got 42' }]);
+      expect(error.message).toBe('Invalid Article payload:\n  - link: expected a string, got 42');
+    });
+
+    it('should log violations and continue in lenient mode', () => {
+      const log: Logger = { warn: jest.fn() };
+      const validator = new PayloadValidator({}, log);
+
+      const article = validator.article({ ...rawArticle, language: undefined });
+
+      expect(article.title).toBe(rawArticle.title);
+      expect(article.publishDate).toBeInstanceOf(Date);
+      expect(log.warn).toHaveBeenCalledWith('Invalid Article payload:\n  - language: is required');
+    });
+
+    it('should apply the article coercion rules in lenient mode', () => {
+      const log: Logger = { warn: jest.fn() };
+      const validator = new PayloadValidator({}, log);
+
+      const article = validator.article({
+        ...rawArticle,
+        sentiment: 'Bullish',
+        confidence: 'abc',
+        companies: [{ ...rawArticle.companies[0], confidence: 'x' }],
+      });
+
+      expect(article).not.toHaveProperty('sentiment');
+      expect(article).not.toHaveProperty('confidence');
+      expect(article.companies![0]).not.toHaveProperty('confidence');
+      expect(log.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove an invalid date in lenient mode instead of returning a string', () => {
+      const log: Logger = { warn: jest.fn() };
+      const validator = new PayloadValidator({}, log);
+
+      const article = validator.article({ ...rawArticle, publishDate: 'garbage' });
+
+      expect(article).not.toHaveProperty('publishDate');
+      expect(log.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw on an invalid date in strict mode', () => {
+      const validator = new PayloadValidator({ mode: 'strict' });
+
+      const error = captureError(() => validator.article({ ...rawArticle, publishDate: 'garbage' }));
+
+      expect(error).toBeInstanceOf(PayloadValidationError);
+      expect(error.issues).toEqual([
+        { path: 'publishDate', message: 'expected an ISO 8601 date string or epoch ms, got "garbage"' },
+      ]);
+    });
+
+    it('should skip the schema check but still coerce articles when validation is off', () => {
+      const log: Logger = { warn: jest.fn() };
+      const validator = new PayloadValidator({ mode: 'off' }, log);
+
+      const source = validator.source({ domain: 'example.com' });
+      const article = validator.article({ ...rawArticle, title: 7, sentiment: 'Bullish' });
+
+      expect(source).toEqual({ domain: 'example.com' });
+      expect(article.title).toBe(7);
+      expect(article.publishDate).toBeInstanceOf(Date);
+      expect(article).not.toHaveProperty('sentiment');
+      expect(log.warn).not.toHaveBeenCalled();
+    });
+
+    it('should log an invalid date it removes when validation is off', () => {
+      const log: Logger = { warn: jest.fn() };
+      const validator = new PayloadValidator({ mode: 'off' }, log);
+
+      const article = validator.article({ ...rawArticle, createdAt: 'soon' });
+
+      expect(article).not.toHaveProperty('createdAt');
+      expect(log.warn).toHaveBeenCalledWith(
+        'Removed invalid Article createdAt: expected an ISO 8601 date string or epoch ms, got "soon"',
+      );
+    });
+  });
+
+  describe('services', () => {
+    it('should validate REST articles with the configured validator', async () => {
+      const request = jest.fn().mockResolvedValue({ status: 'ok', page: 1, pageSize: 10, articles: [rawArticle, {}] });
+      const service = new ArticleService(mockApiClient(request), true, new PayloadValidator({ mode: 'strict' }));
+
+      await expect(service.fetchArticles({ query: 'Apple' })).rejects.toBeInstanceOf(PayloadValidationError);
+    });
+
+    it('should validate sources', async () => {
+      const request = jest.fn().mockResolvedValue([{ domain: 'example.com', isContentAvailable: 'yes' }]);
+      const service = new SourceService(mockApiClient(request), new PayloadValidator({ mode: 'strict' }));
+
+      const error = await service.getSources().catch((e) => e);
+
+      expect(error.issues).toEqual([
+        { path: 'isContentAvailable', message: 'expected a boolean, got "yes"' },
+        { path: 'isDefaultSource', message: 'is required' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { Logger } from '../logger';
+import { Article } from '../types';
+import {
+  coerceNumber,
+  deserializeArticle,
+  normalizeSentiment,
+  serializeArticle,
+  transformArticle,
+  transformRawArticle,
+} from '../utils';
+
+describe('Article coercion', () => {
+  const rawArticle = {
+    link: 'https://example.com/a',
+    title: 'Apple beats estimates',
+    publishDate: '2024-01-01T00:00:00.123Z',
+    source: 'example.com',
+    language: 'en',
+  };
+
+  describe('coerceNumber', () => {
+    it('should keep zero and parse numeric strings', () => {
+      expect(coerceNumber(0)).toBe(0);
+      expect(coerceNumber('0')).toBe(0);
+      expect(coerceNumber(' 0.91 ')).toBe(0.91);
+    });
+
+    it('should return undefined for missing and non-numeric values', () => {
+      [null, undefined, '', '  ', 'high', NaN, Infinity, true, {}].forEach((value) => {
+        expect(coerceNumber(value)).toBeUndefined();
+      });
+    });
+  });
+
+  describe('normalizeSentiment', () => {
+    it('should normalize known labels and drop unknown ones', () => {
+      expect(normalizeSentiment(' Positive ')).toBe('positive');
+      expect(normalizeSentiment('NEGATIVE')).toBe('negative');
+      expect(normalizeSentiment('mixed')).toBeUndefined();
+      expect(normalizeSentiment(1)).toBeUndefined();
+    });
+  });
+
+  describe('transformArticle', () => {
+    it('should keep confidences of zero on the article and its companies', () => {
+      const article = transformArticle({
+        ...rawArticle,
+        confidence: '0',
+        companies: [
+          { companyId: 1, name: 'Apple Inc.', ticker: 'AAPL', confidence: 0 },
+          { companyId: 2, name: 'Microsoft', ticker: 'MSFT', confidence: '0' },
+        ],
+      });
+
+      expect(article.confidence).toBe(0);
+      expect(article.companies?.map((company) => company.confidence)).toEqual([0, 0]);
+    });
+
+    it('should remove null and non-numeric confidences', () => {
+      const article = transformArticle({
+        ...rawArticle,
+        confidence: null,
+        companies: [{ companyId: 1, name: 'Apple Inc.', ticker: 'AAPL', confidence: 'n/a' }],
+      });
+
+      expect(article).not.toHaveProperty('confidence');
+      expect(article.companies?.[0]).not.toHaveProperty('confidence');
+    });
+
+    it('should normalize the sentiment', () => {
+      expect(transformArticle({ ...rawArticle, sentiment: 'Neutral' }).sentiment).toBe('neutral');
+      expect(transformArticle({ ...rawArticle, sentiment: 'bullish' })).not.toHaveProperty('sentiment');
+    });
+
+    it('should remove null and invalid dates, logging the invalid ones', () => {
+      const log: Logger = { warn: jest.fn() };
+
+      expect(transformArticle({ ...rawArticle, createdAt: null }, log)).not.toHaveProperty('createdAt');
+      expect(transformArticle({ ...rawArticle, publishDate: 'yesterday' }, log)).not.toHaveProperty('publishDate');
+      expect(transformRawArticle({ ...rawArticle, publishDate: '' }, log)).not.toHaveProperty('publishDate');
+      expect(log.warn).toHaveBeenCalledTimes(2);
+      expect(log.warn).toHaveBeenCalledWith(
+        'Removed invalid Article publishDate: expected an ISO 8601 date string or epoch ms, got "yesterday"',
+      );
+    });
+  });
+
+  describe('serializeArticle', () => {
+    const article: Article = {
+      ...rawArticle,
+      publishDate: new Date('2024-01-01T00:00:00.123Z'),
+      createdAt: new Date('2024-01-01T00:01:00.000Z'),
+      sentiment: 'negative',
+      confidence: 0,
+      categories: ['markets'],
+      companies: [
+        {
+          companyId: 1,
+          name: 'Apple Inc.',
+          ticker: 'AAPL',
+          confidence: 0,
+          primaryListing: { ticker: 'AAPL', exchangeCode: 'XNAS', exchangeCountry: 'US' },
+        },
+      ],
+    };
+
+    it('should write dates as ISO strings', () => {
+      const serialized = serializeArticle(article);
+
+      expect(serialized.publishDate).toBe('2024-01-01T00:00:00.123Z');
+      expect(serialized.createdAt).toBe('2024-01-01T00:01:00.000Z');
+      expect(serializeArticle({ ...article, createdAt: undefined })).not.toHaveProperty('createdAt');
+    });
+
+    it('should round-trip through JSON losslessly', () => {
+      const json = JSON.stringify(serializeArticle(article));
+
+      expect(deserializeArticle(json)).toEqual(article);
+      expect(deserializeArticle(JSON.parse(json))).toEqual(article);
+    });
+
+    it('should throw for an invalid date', () => {
+      expect(() => deserializeArticle({ ...serializeArticle(article), createdAt: 'soon' })).toThrow(
+        'Invalid Article payload:\n  - createdAt: expected an ISO 8601 date string or epoch ms, got "soon"',
+      );
+    });
+
+    it('should keep fields it does not know', () => {
+      const extended = { ...article, authors: 'Jane Doe' } as Article;
+
+      expect(deserializeArticle(JSON.stringify(serializeArticle(extended)))).toEqual(extended);
+    });
+  });
+});
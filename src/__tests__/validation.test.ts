@@ -0,0 +1,137 @@
+import { ApiClient } from '../client/apiClient';
+import { ParamsValidationError, ValidationError } from '../errors';
+import { ArticleService } from '../services/articleService';
+import {
+  validateGetArticleByLinkParams,
+  validateGetArticlesParams,
+  validateRawWebSocketParams,
+  validateWebSocketParams,
+} from '../validation';
+
+describe('parameter validation', () => {
+  describe('validateGetArticlesParams', () => {
+    it('should accept valid parameters', () => {
+      expect(
+        validateGetArticlesParams({
+          query: '(ticker:AAPL OR ticker:NVDA) AND NOT source:reuters.com',
+          tickers: ['AAPL'],
+          countries: ['US', 'GB'],
+          categories: ['markets', 'crypto'],
+          from: '2024-01-01',
+          to: '2024-01-31T23:59:59Z',
+          language: 'en',
+          orderBy: 'createdAt',
+          order: 'DESC',
+          pageSize: 1000,
+          page: 2,
+        }),
+      ).toEqual([]);
+    });
+
+    it('should list every problem', () => {
+      const issues = validateGetArticlesParams({
+        pageSize: 5000,
+        page: 0,
+        from: '2024-03-01',
+        to: '2024-02-01',
+        countries: ['us', 'USA'],
+        categories: ['sports' as any],
+        sources: ['reuters.com', 'ft.com'],
+        excludeSources: ['reuters.com'],
+      });
+
+      expect(issues.map((issue) => issue.field)).toEqual([
+        'excludeSources',
+        'countries[0]',
+        'countries[1]',
+        'categories[0]',
+        'from',
+        'pageSize',
+        'page',
+      ]);
+    });
+
+    it('should reject malformed and impossible dates', () => {
+      const message = (got: string) =>
+        `must be a YYYY-MM-DD or ISO 8601 string, Date, epoch ms or relative date (e.g. '-7d' or { last: '24h' }), got ${got}`;
+
+      expect(validateGetArticlesParams({ from: '01/02/2024', to: '2024-02-30' })).toEqual([
+        { field: 'from', message: message("'01/02/2024'") },
+        { field: 'to', message: message("'2024-02-30'") },
+      ]);
+      expect(validateGetArticlesParams({ from: new Date('nope'), to: { last: '3 days' } })).toEqual([
+        { field: 'from', message: message('Invalid Date') },
+        { field: 'to', message: message('{"last":"3 days"}') },
+      ]);
+    });
+
+    it('should resolve relative dates against the same now when checking the range', () => {
+      const now = Date.parse('2024-06-01T00:00:00Z');
+
+      expect(validateGetArticlesParams({ from: { last: '7d' }, to: 'now' }, now)).toEqual([]);
+      expect(validateGetArticlesParams({ from: '-1d', to: new Date('2024-05-01') }, now)).toEqual([
+        { field: 'from', message: "must not be after 'to' ('-1d' > 2024-05-01T00:00:00.000Z)" },
+      ]);
+    });
+
+    it('should treat a date-only to as the end of that day when checking the range', () => {
+      expect(validateGetArticlesParams({ from: '2024-01-01T12:00:00Z', to: '2024-01-01' })).toEqual([]);
+      expect(validateGetArticlesParams({ from: '2024-01-01', to: '2024-01-01' })).toEqual([]);
+      expect(validateGetArticlesParams({ from: '2024-01-02', to: '2024-01-01' })).toEqual([
+        { field: 'from', message: "must not be after 'to' ('2024-01-02' > '2024-01-01')" },
+      ]);
+      expect(validateGetArticlesParams({ from: '2024-01-01T12:00:00Z', to: '2024-01-01T11:00:00Z' })).toHaveLength(1);
+    });
+
+    it('should reject malformed queries but leave unknown fields to the server', () => {
+      expect(validateGetArticlesParams({ query: '(ticker:AAPL' })).toHaveLength(1);
+      expect(validateGetArticlesParams({ query: 'newfield:value' })).toEqual([]);
+    });
+  });
+
+  describe('stream and link parameters', () => {
+    it('should validate WebSocket parameters', () => {
+      expect(validateWebSocketParams({ countries: ['de'], tickers: [''] })).toHaveLength(2);
+      expect(validateRawWebSocketParams({ query: 'ticker:AAPL' })).toEqual([
+        { field: 'query', message: "Field 'ticker:' is not supported by the raw WebSocket" },
+      ]);
+    });
+
+    it('should require an absolute link', () => {
+      expect(validateGetArticleByLinkParams({ link: 'https://example.com/a' })).toEqual([]);
+      expect(validateGetArticleByLinkParams({ link: 'example.com/a' })).toHaveLength(1);
+    });
+  });
+
+  describe('ArticleService', () => {
+    // Services read responses through requestWithMetadata; tests assert on the plain request mock
+    const mockApiClient = (request: (...args: any[]) => unknown) =>
+      ({
+        request,
+        requestWithMetadata: (...args: unknown[]) =>
+          Promise.resolve(request(...args)).then((data) => ({ data, metadata: {} })),
+      }) as unknown as ApiClient;
+
+    it('should throw a ParamsValidationError before sending the request', async () => {
+      const request = jest.fn();
+      const service = new ArticleService(mockApiClient(request));
+
+      const error = await service.fetchArticles({ pageSize: 0, countries: ['us'] }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ParamsValidationError);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.issues).toHaveLength(2);
+      expect(error.message).toContain('pageSize: must be an integer between 1 and 1000, got 0');
+      expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should skip validation when disabled', async () => {
+      const request = jest.fn().mockResolvedValue({ status: 'ok', page: 1, pageSize: 0, articles: [] });
+      const service = new ArticleService(mockApiClient(request), false);
+
+      await service.fetchArticles({ pageSize: 0 });
+
+      expect(request).toHaveBeenCalled();
+    });
+  });
+});
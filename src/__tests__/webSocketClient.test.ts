@@ -0,0 +1,578 @@
+import { IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { BaseWebSocketClientOptions } from '../client/baseWebSocketClient';
+import { WebSocketClient } from '../client/webSocketClient';
+import { RawWebSocketClient } from '../client/rawWebSocketClient';
+import { GapFillFailure, GapFillOptions, GapFillReport } from '../client/gapFill';
+import { WebSocketStateChange, WebSocketStateError } from '../client/webSocketState';
+import { ParamsValidationError, ServerError } from '../errors';
+import { noopLogger } from '../logger';
+import { ArticleService } from '../services/articleService';
+import { Article, GetArticleApiResponse, GetArticlesParams, defaultApiConfig } from '../types';
+
+type ServerSocketHandler = (socket: WebSocket, subscription: Record<string, any>, connection: number) => void;
+
+describe('WebSocketClient', () => {
+  let server: WebSocketServer;
+  let onSubscribe: ServerSocketHandler;
+  let client: WebSocketClient;
+  let connections: number;
+  let requestHeaders: IncomingHttpHeaders[];
+
+  const article = (link: string, createdAt?: string) => ({
+    link,
+    ...(createdAt && { createdAt }),
+    title: `Title of ${link}`,
+    publishDate: '2024-01-01T00:00:00Z',
+    source: 'example.com',
+    language: 'en',
+  });
+
+  const send = (socket: WebSocket, message: Record<string, unknown>) => socket.send(JSON.stringify(message));
+
+  const createClient = (options: BaseWebSocketClientOptions = {}) => {
+    const { port } = server.address() as AddressInfo;
+    return new WebSocketClient(
+      { ...defaultApiConfig, apiKey: 'test', wssUrl: `ws://127.0.0.1:${port}`, logger: noopLogger },
+      { baseReconnectDelay: 0.01, ...options },
+    );
+  };
+
+  beforeEach(async () => {
+    connections = 0;
+    requestHeaders = [];
+    server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    server.on('connection', (socket, request) => {
+      const connection = ++connections;
+      requestHeaders.push(request.headers);
+      socket.once('message', (data) => onSubscribe(socket, JSON.parse(data.toString()), connection));
+    });
+    await new Promise((resolve) => server.once('listening', resolve));
+    client = createClient();
+  });
+
+  afterEach(async () => {
+    client.stop();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should deliver articles to the callback and to listeners, skipping duplicates', async () => {
+    onSubscribe = (socket, subscription) => {
+      send(socket, { action: 'admit', leaseId: 'lease-1', serverNow: 123, clientNonce: subscription.clientNonce });
+      ['/a', '/a', '/b'].forEach((link) => send(socket, { action: 'sendArticle', data: article(link) }));
+    };
+    const received: string[] = [];
+    const listened: string[] = [];
+    const admitted = jest.fn();
+    client.on('admitted', admitted).on('article', (item) => {
+      listened.push(item.link);
+      if (listened.length === 2) client.stop();
+    });
+
+    await client.connect({ query: 'Nvidia' }, (item) => received.push(item.link));
+
+    expect(admitted).toHaveBeenCalledWith({ leaseId: 'lease-1', serverNow: 123 });
+    expect(received).toEqual(['/a', '/b']);
+    expect(listened).toEqual(['/a', '/b']);
+  });
+
+  it('should emit closed and reconnecting before connecting again', async () => {
+    onSubscribe = (socket, _subscription, connection) => {
+      if (connection === 1) {
+        socket.close(4000, 'Proactive rotation');
+      } else {
+        client.stop();
+      }
+    };
+    const events: unknown[] = [];
+    client
+      .on('connected', () => events.push('connected'))
+      .on('closed', (event) => events.push(event))
+      .on('reconnecting', (event) => events.push({ delayMs: event.delayMs, attempt: event.attempt }));
+
+    await client.connect({ query: 'Nvidia' });
+
+    expect(events.slice(0, 4)).toEqual([
+      'connected',
+      { code: 4000, reason: 'Proactive rotation' },
+      { delayMs: 10, attempt: 1 },
+      'connected',
+    ]);
+  });
+
+  it('should report server errors and stop promptly while waiting to reconnect', async () => {
+    onSubscribe = (socket) => send(socket, { action: 'error', data: 'Connection limit reached' });
+    const serverError = jest.fn();
+    client.on('serverError', serverError).on('reconnecting', () => setTimeout(() => client.stop(), 10));
+
+    const started = Date.now();
+    await client.connect({ query: 'Nvidia' });
+
+    expect(serverError).toHaveBeenCalledWith({ message: 'Connection limit reached' });
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('should keep the connection alive when a listener throws', async () => {
+    onSubscribe = (socket) => {
+      send(socket, { action: 'sendArticle', data: article('/a') });
+      send(socket, { action: 'sendArticle', data: article('/b') });
+    };
+    const received: string[] = [];
+    client
+      .on('article', () => {
+        throw new Error('listener failed');
+      })
+      .on('article', (item) => {
+        received.push(item.link);
+        if (received.length === 2) client.stop();
+      });
+
+    await client.connect({ query: 'Nvidia' });
+
+    expect(received).toEqual(['/a', '/b']);
+  });
+
+  describe('state', () => {
+    it('should move through the connection states and report each change', async () => {
+      onSubscribe = (socket) => send(socket, { action: 'admit', leaseId: 'lease-1' });
+      const changes: WebSocketStateChange[] = [];
+      client.on('stateChange', (change) => {
+        changes.push(change);
+        if (change.to === 'admitted') client.stop();
+      });
+
+      expect(client.getState()).toBe('idle');
+      await client.connect({ query: 'Nvidia' });
+
+      expect(changes.map(({ from, to }) => `${from} → ${to}`)).toEqual([
+        'idle → connecting',
+        'connecting → open',
+        'open → admitted',
+        'admitted → stopped',
+      ]);
+      expect(changes[2].reason).toBe('Admitted with lease lease-1');
+      expect(client.getState()).toBe('stopped');
+    });
+
+    it('should report the reason and retry time while rate limited', async () => {
+      onSubscribe = (socket) => send(socket, { action: 'error', data: 'Connection limit reached' });
+      const changes: WebSocketStateChange[] = [];
+      client.on('stateChange', (change) => {
+        changes.push(change);
+        if (change.to === 'rate-limited') client.stop();
+      });
+
+      const started = Date.now();
+      await client.connect({ query: 'Nvidia' });
+
+      const rateLimited = changes.find((change) => change.to === 'rate-limited')!;
+      expect(rateLimited.reason).toBe('Server error: Connection limit reached');
+      expect(rateLimited.retryAt).toBeGreaterThanOrEqual(started + 60_000);
+    });
+
+    it('should reject a second connect without opening another socket', async () => {
+      onSubscribe = (socket) => send(socket, { action: 'admit', leaseId: 'lease-1' });
+      const admitted = new Promise((resolve) => client.once('admitted', resolve));
+      const connection = client.connect({ query: 'Nvidia' });
+      await admitted;
+
+      const error = await client.connect({ query: 'Tesla' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(WebSocketStateError);
+      expect(error.state).toBe('admitted');
+      expect(connections).toBe(1);
+      client.stop();
+      await connection;
+    });
+
+    it('should connect again after being stopped', async () => {
+      onSubscribe = () => client.stop();
+
+      await client.connect({ query: 'Nvidia' });
+      await client.connect({ query: 'Nvidia' });
+
+      expect(connections).toBe(2);
+      expect(client.getState()).toBe('stopped');
+    });
+  });
+
+  describe('gap fill', () => {
+    const createGapFillClient = (articles: Article[], gapFill: true | GapFillOptions = true) => {
+      const fetchArticles = jest.fn<Promise<GetArticleApiResponse>, [GetArticlesParams]>(() =>
+        Promise.resolve({ status: 'ok', page: 1, pageSize: 100, articles }),
+      );
+      const { port } = server.address() as AddressInfo;
+      const gapFillClient = new WebSocketClient(
+        { ...defaultApiConfig, apiKey: 'test', wssUrl: `ws://127.0.0.1:${port}`, logger: noopLogger },
+        { baseReconnectDelay: 0.01, gapFill },
+        undefined,
+        { fetchArticles } as unknown as ArticleService,
+      );
+      return { gapFillClient, fetchArticles };
+    };
+
+    const restArticle = (link: string, createdAt: string): Article => ({
+      link,
+      title: link,
+      publishDate: new Date(createdAt),
+      createdAt: new Date(createdAt),
+      source: 'example.com',
+      language: 'en',
+    });
+
+    it('should replay articles missed while reconnecting into the same handler', async () => {
+      onSubscribe = (socket, _subscription, connection) => {
+        send(socket, { action: 'admit', leaseId: `lease-${connection}` });
+        if (connection === 1) {
+          send(socket, { action: 'sendArticle', data: article('/a', '2024-01-01T10:00:00Z') });
+          setTimeout(() => socket.close(4000, 'Proactive rotation'), 20);
+        }
+      };
+      const future = new Date(Date.now() + 60_000).toISOString();
+      const { gapFillClient, fetchArticles } = createGapFillClient([
+        restArticle('/live', future),
+        restArticle('/c', '2024-01-01T10:02:00Z'),
+        restArticle('/b', '2024-01-01T10:01:00Z'),
+        restArticle('/a', '2024-01-01T10:00:00Z'),
+      ]);
+      client = gapFillClient;
+      const received: string[] = [];
+      const reports: GapFillReport[] = [];
+      client.on('gapFilled', (report) => {
+        reports.push(report);
+        client.stop();
+      });
+
+      await client.connect({ query: 'Nvidia', tickers: ['NVDA'] }, (item) => received.push(item.link));
+
+      expect(received).toEqual(['/a', '/b', '/c']);
+      expect(reports).toEqual([
+        { from: new Date('2024-01-01T10:00:00Z'), to: expect.any(Date), recovered: 2, truncated: false },
+      ]);
+      expect(fetchArticles).toHaveBeenCalledTimes(1);
+      expect(fetchArticles.mock.calls[0][0]).toMatchObject({
+        query: 'Nvidia',
+        tickers: ['NVDA'],
+        from: '2024-01-01T10:00:00.000Z',
+        to: reports[0].to.toISOString(),
+        orderBy: 'createdAt',
+        order: 'DESC',
+        page: 1,
+      });
+    });
+
+    it('should report the part of the gap it could not replay when maxPages is reached', async () => {
+      const serverNow = Date.parse('2024-01-01T12:00:00Z');
+      onSubscribe = (socket, _subscription, connection) => {
+        send(socket, { action: 'admit', leaseId: `lease-${connection}`, serverNow });
+        if (connection === 1) {
+          send(socket, { action: 'sendArticle', data: article('/a', '2024-01-01T10:00:00Z') });
+          setTimeout(() => socket.close(4000, 'Proactive rotation'), 20);
+        }
+      };
+      const { gapFillClient } = createGapFillClient(
+        [restArticle('/d', '2024-01-01T10:03:00Z'), restArticle('/c', '2024-01-01T10:02:00Z')],
+        { pageSize: 2, maxPages: 1 },
+      );
+      client = gapFillClient;
+      const reports: GapFillReport[] = [];
+      client.on('gapFilled', (report) => {
+        reports.push(report);
+        client.stop();
+      });
+
+      await client.connect({ query: 'Nvidia' }, () => undefined);
+
+      expect(reports).toEqual([
+        {
+          from: new Date('2024-01-01T10:00:00Z'),
+          to: new Date(serverNow),
+          recovered: 2,
+          truncated: true,
+          unrecovered: { from: new Date('2024-01-01T10:00:00Z'), to: new Date('2024-01-01T10:02:00Z') },
+        },
+      ]);
+    });
+
+    it('should date articles without createdAt by the server clock', async () => {
+      const serverNow = Date.parse('2024-01-01T12:00:00Z');
+      onSubscribe = (socket, _subscription, connection) => {
+        send(socket, { action: 'admit', leaseId: `lease-${connection}`, serverNow: serverNow + connection * 1000 });
+        if (connection === 1) {
+          send(socket, { action: 'sendArticle', data: article('/a') });
+          setTimeout(() => socket.close(4000, 'Proactive rotation'), 20);
+        }
+      };
+      const { gapFillClient } = createGapFillClient([]);
+      client = gapFillClient;
+      const reports: GapFillReport[] = [];
+      client.on('gapFilled', (report) => {
+        reports.push(report);
+        client.stop();
+      });
+
+      await client.connect({ query: 'Nvidia' }, () => undefined);
+
+      // Received right after the first admission, so by the server clock shortly after its serverNow
+      expect(reports[0].from.getTime()).toBeGreaterThanOrEqual(serverNow + 1000);
+      expect(reports[0].from.getTime()).toBeLessThan(serverNow + 2000);
+    });
+
+    it('should keep a gap whose fill failed and fill it after the next admission', async () => {
+      const serverNow = Date.parse('2024-01-01T12:00:00Z');
+      onSubscribe = (socket, _subscription, connection) => {
+        send(socket, { action: 'admit', leaseId: `lease-${connection}`, serverNow: serverNow + connection });
+        if (connection === 1) {
+          send(socket, { action: 'sendArticle', data: article('/a', '2024-01-01T10:00:00Z') });
+        }
+        if (connection === 2) {
+          // A live article after the failed fill must not move the start of the gap
+          send(socket, { action: 'sendArticle', data: article('/live', '2024-01-01T11:00:00Z') });
+        }
+        if (connection < 3) {
+          setTimeout(() => socket.close(4000, 'Proactive rotation'), 20);
+        }
+      };
+      const { gapFillClient, fetchArticles } = createGapFillClient([
+        restArticle('/b', '2024-01-01T10:01:00Z'),
+        restArticle('/a', '2024-01-01T10:00:00Z'),
+      ]);
+      fetchArticles.mockRejectedValueOnce(new ServerError('Service unavailable'));
+      client = gapFillClient;
+      const received: string[] = [];
+      const failures: GapFillFailure[] = [];
+      const reports: GapFillReport[] = [];
+      client.on('gapFillFailed', (failure) => failures.push(failure));
+      client.on('gapFilled', (report) => {
+        reports.push(report);
+        client.stop();
+      });
+
+      await client.connect({ query: 'Nvidia' }, (item) => received.push(item.link));
+
+      expect(failures).toEqual([
+        { from: new Date('2024-01-01T10:00:00Z'), to: new Date(serverNow + 2), error: expect.any(ServerError) },
+      ]);
+      expect(reports).toEqual([
+        { from: new Date('2024-01-01T10:00:00Z'), to: new Date(serverNow + 3), recovered: 1, truncated: false },
+      ]);
+      expect(received).toEqual(['/a', '/live', '/b']);
+    });
+
+    it('should not fill on the first admission', async () => {
+      onSubscribe = (socket) => {
+        send(socket, { action: 'admit', leaseId: 'lease-1' });
+        send(socket, { action: 'sendArticle', data: article('/a') });
+      };
+      const { gapFillClient, fetchArticles } = createGapFillClient([]);
+      client = gapFillClient;
+      client.on('article', () => client.stop());
+
+      await client.connect({ query: 'Nvidia' });
+
+      expect(fetchArticles).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('overlap rotation', () => {
+    it('should admit a replacement before closing the old connection', async () => {
+      const sockets: WebSocket[] = [];
+      onSubscribe = (socket, _subscription, connection) => {
+        sockets.push(socket);
+        if (connection === 1) {
+          send(socket, { action: 'admit', leaseId: 'lease-1' });
+          send(socket, { action: 'sendArticle', data: article('/a') });
+        } else {
+          // The takeover preempts the old connection before the replacement is admitted
+          send(sockets[0], { action: 'preempted', reason: 'takeover', newLeaseId: 'lease-2' });
+          send(socket, { action: 'sendArticle', data: article('/a') });
+          send(socket, { action: 'sendArticle', data: article('/b') });
+          send(socket, { action: 'admit', leaseId: 'lease-2' });
+          send(socket, { action: 'sendArticle', data: article('/c') });
+        }
+      };
+      client = createClient({ rotationMode: 'overlap', connectionLifetime: 0.05 });
+      const received: string[] = [];
+      const states: string[] = [];
+      const rotated = jest.fn();
+      client
+        .on('rotated', rotated)
+        .on('stateChange', (change) => states.push(change.to))
+        .on('article', (item) => {
+          received.push(item.link);
+          if (item.link === '/c') client.stop();
+        });
+
+      await client.connect({ query: 'Nvidia' });
+
+      expect(received).toEqual(['/a', '/b', '/c']);
+      expect(rotated).toHaveBeenCalledWith({ leaseId: 'lease-2', previousLeaseId: 'lease-1' });
+      expect(requestHeaders[1]['x-takeover']).toBe('true');
+      expect(states).toEqual(['connecting', 'open', 'admitted', 'stopped']);
+    });
+
+    it('should stop instead of taking the lease back when another client preempts mid-rotation', async () => {
+      const sockets: WebSocket[] = [];
+      onSubscribe = (socket, _subscription, connection) => {
+        sockets.push(socket);
+        if (connection === 1) {
+          send(socket, { action: 'admit', leaseId: 'lease-1' });
+        } else {
+          send(sockets[0], { action: 'preempted', reason: 'takeover', newLeaseId: 'lease-other' });
+          send(socket, { action: 'admit', leaseId: 'lease-2' });
+        }
+      };
+      client = createClient({ rotationMode: 'overlap', connectionLifetime: 0.05 });
+      const preempted = jest.fn();
+      const rotated = jest.fn();
+      client.on('preempted', preempted).on('rotated', rotated);
+
+      await client.connect({ query: 'Nvidia' });
+
+      expect(preempted).toHaveBeenCalledWith({ reason: 'takeover', newLeaseId: 'lease-other' });
+      expect(rotated).not.toHaveBeenCalled();
+      expect(client.getState()).toBe('preempted');
+      expect(connections).toBe(2);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(sockets.map((socket) => socket.readyState)).toEqual([WebSocket.CLOSED, WebSocket.CLOSED]);
+    });
+
+    it('should complete the rotation when the preemption does not report a new lease', async () => {
+      const sockets: WebSocket[] = [];
+      onSubscribe = (socket, _subscription, connection) => {
+        sockets.push(socket);
+        if (connection === 1) {
+          send(socket, { action: 'admit', leaseId: 'lease-1' });
+        } else {
+          send(sockets[0], { action: 'preempted', reason: 'takeover' });
+          send(socket, { action: 'admit', leaseId: 'lease-2' });
+        }
+      };
+      client = createClient({ rotationMode: 'overlap', connectionLifetime: 0.05 });
+      const preempted = jest.fn();
+      client.on('preempted', preempted).on('rotated', () => client.stop());
+
+      await client.connect({ query: 'Nvidia' });
+
+      expect(preempted).not.toHaveBeenCalled();
+      expect(client.getState()).toBe('stopped');
+    });
+
+    it('should reconnect when the replacement fails after its takeover preempted the old connection', async () => {
+      const sockets: WebSocket[] = [];
+      onSubscribe = (socket, _subscription, connection) => {
+        sockets.push(socket);
+        if (connection === 1) {
+          send(socket, { action: 'admit', leaseId: 'lease-1' });
+        } else if (connection === 2) {
+          send(sockets[0], { action: 'preempted', reason: 'takeover', newLeaseId: 'lease-2' });
+          send(socket, { action: 'error', data: 'Internal error' });
+        } else {
+          client.stop();
+        }
+      };
+      client = createClient({ rotationMode: 'overlap', connectionLifetime: 0.05 });
+      const preempted = jest.fn();
+      client.on('preempted', preempted);
+
+      await client.connect({ query: 'Nvidia' });
+
+      expect(preempted).not.toHaveBeenCalled();
+      expect(connections).toBe(3);
+    });
+
+    it('should reconnect the classic way when the replacement is rejected', async () => {
+      onSubscribe = (socket, _subscription, connection) => {
+        if (connection === 1) {
+          send(socket, { action: 'admit', leaseId: 'lease-1' });
+        } else if (connection === 2) {
+          send(socket, { action: 'error', data: 'Connection limit reached' });
+        } else {
+          client.stop();
+        }
+      };
+      client = createClient({ rotationMode: 'overlap', connectionLifetime: 0.05 });
+      const closed = jest.fn();
+      client.on('closed', closed);
+
+      await client.connect({ query: 'Nvidia' });
+
+      expect(closed).toHaveBeenCalledWith({ code: 4000, reason: 'Proactive rotation' });
+      expect(connections).toBe(3);
+    });
+  });
+
+  describe('dedup', () => {
+    const links = ['https://example.com/a?utm_source=feed', 'https://example.com/a', 'https://example.com/b'];
+
+    beforeEach(() => {
+      onSubscribe = (socket) => links.forEach((link) => send(socket, { action: 'sendArticle', data: article(link) }));
+    });
+
+    it('should suppress duplicates on the raw stream with the configured identity', async () => {
+      const { port } = server.address() as AddressInfo;
+      const raw = new RawWebSocketClient(
+        { ...defaultApiConfig, apiKey: 'test', wssUrl: `ws://127.0.0.1:${port}`, logger: noopLogger },
+        { dedup: { identity: 'normalized-link' } },
+      );
+      const received: string[] = [];
+      raw.on('article', (item) => {
+        received.push(item.link);
+        if (received.length === 2) raw.stop();
+      });
+
+      await raw.connect({ query: 'Nvidia' });
+
+      expect(received).toEqual(['https://example.com/a?utm_source=feed', 'https://example.com/b']);
+    });
+
+    it('should deliver every message when disabled', async () => {
+      client = createClient({ dedup: false });
+      const received: string[] = [];
+      client.on('article', (item) => {
+        received.push(item.link);
+        if (received.length === 3) client.stop();
+      });
+
+      await client.connect({ query: 'Nvidia' });
+
+      expect(received).toEqual(links);
+    });
+  });
+
+  describe('stream', () => {
+    it('should yield articles until the client is stopped', async () => {
+      onSubscribe = (socket) => {
+        ['/a', '/b'].forEach((link) => send(socket, { action: 'sendArticle', data: article(link) }));
+      };
+      const received: Article[] = [];
+
+      for await (const item of client.stream({ query: 'Nvidia' })) {
+        received.push(item);
+        if (received.length === 2) client.stop();
+      }
+
+      expect(received.map((item) => item.link)).toEqual(['/a', '/b']);
+    });
+
+    it('should stop the client when the consumer breaks out', async () => {
+      onSubscribe = (socket) => send(socket, { action: 'sendArticle', data: article('/a') });
+      const closed = jest.fn();
+      client.on('closed', closed);
+
+      for await (const item of client.stream({ query: 'Nvidia' })) {
+        expect(item.link).toBe('/a');
+        break;
+      }
+
+      expect(closed).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw invalid parameters from the iterator', async () => {
+      const iterator = client.stream({ query: 'Nvidia', sources: ['a.com'], excludeSources: ['a.com'] });
+
+      await expect(iterator.next()).rejects.toBeInstanceOf(ParamsValidationError);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import crypto from 'crypto';
 import { WebhookService, WebhookVerificationError } from '../services/webhookService';
+import { PayloadValidationError, PayloadValidator } from '../schema';
 
 describe('WebhookService', () => {
   const endpointSecret = 'test_secret_key';
@@ -122,6 +123,16 @@ describe('WebhookService', () => {
       }).toThrow('Invalid JSON payload');
     });
 
+    it('should reject payloads that do not match the article schema with a strict validator', () => {
+      const rawBody = JSON.stringify({ ...validPayload, publishDate: 'not a date' });
+      const signature = `sha256=${createSignature(rawBody, endpointSecret)}`;
+      const strict = new PayloadValidator({ mode: 'strict' });
+
+      expect(() => {
+        WebhookService.constructEvent(rawBody, signature, endpointSecret, undefined, strict);
+      }).toThrow(PayloadValidationError);
+    });
+
     it('should handle payload with different data types', () => {
       const complexPayload = {
         link: 'https://example.com/complex-article',
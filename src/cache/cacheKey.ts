@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+
+/**
+ * Builds a cache key from the method, path and params of a request.
+ * Params are normalized so that key order and undefined values do not matter.
+ *
+ * @param namespace - Prefix scoping the key, e.g. to one API account (see `createCacheNamespace`)
+ */
+export function createCacheKey(method: string, url: string, params?: unknown, namespace?: string): string {
+  const key = `${method.toUpperCase()} ${url} ${stableStringify(params)}`;
+  return namespace ? `${namespace} ${key}` : key;
+}
+
+/**
+ * Builds the default cache namespace of a client: its base URL and a hash of its API key,
+ * so clients sharing a store never read each other's responses and the key is not stored in the clear
+ */
+export function createCacheNamespace(baseUrl: string, apiKey: string): string {
+  const keyHash = crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+  return `${baseUrl} ${keyHash}`;
+}
+
+/**
+ * JSON.stringify with sorted object keys and undefined properties dropped
+ */
+export function stableStringify(value: unknown): string {
+  return (
+    JSON.stringify(value, (_key, nested: unknown) => {
+      if (nested === null || typeof nested !== 'object' || Array.isArray(nested)) {
+        return nested;
+      }
+      return Object.fromEntries(
+        Object.entries(nested as Record<string, unknown>)
+          .filter(([, v]) => v !== undefined)
+          .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+      );
+    }) ?? ''
+  );
+}
@@ -0,0 +1,4 @@
+export { CacheEntry, CacheStore, CacheOptions, CacheMode, CacheStats } from './types';
+export { MemoryCacheStore } from './memoryCacheStore';
+export { ResponseCache, defaultCacheTtls } from './responseCache';
+export { createCacheKey, createCacheNamespace, stableStringify } from './cacheKey';
@@ -0,0 +1,136 @@
+import { Logger } from '../logger';
+import { createCacheKey } from './cacheKey';
+import { MemoryCacheStore } from './memoryCacheStore';
+import { CacheEntry, CacheMode, CacheOptions, CacheStats, CacheStore } from './types';
+
+/**
+ * Default TTLs per endpoint, in ms. Searches are not cached unless configured.
+ */
+export const defaultCacheTtls: Readonly<Record<string, number>> = {
+  '/v2/sources': 60 * 60 * 1000,
+  '/v2/articles/by-link': 10 * 60 * 1000,
+};
+
+/**
+ * Caches REST response bodies keyed by method, path and normalized params.
+ *
+ * Expired entries within `staleWhileRevalidateMs` are served immediately and
+ * refreshed in the background. Store failures are logged and never fail a request.
+ */
+export class ResponseCache {
+  readonly store: CacheStore;
+  private readonly ttls: Record<string, number>;
+  private readonly defaultTtlMs: number;
+  private readonly staleWhileRevalidateMs: number;
+  private readonly namespace?: string;
+  private readonly revalidating = new Set<string>();
+  private readonly stats: CacheStats = { hits: 0, staleHits: 0, misses: 0, revalidations: 0, storeErrors: 0 };
+
+  constructor(
+    options: CacheOptions,
+    private readonly log: Logger,
+  ) {
+    this.store = options.store ?? new MemoryCacheStore(options.maxEntries);
+    this.ttls = { ...defaultCacheTtls, ...options.endpointTtls };
+    this.defaultTtlMs = options.ttlMs ?? 0;
+    this.staleWhileRevalidateMs = options.staleWhileRevalidateMs ?? 0;
+    this.namespace = options.namespace;
+  }
+
+  /**
+   * Returns the cached response for a request, or loads and stores it
+   *
+   * @param method - HTTP method
+   * @param url - Endpoint path
+   * @param params - Query params or body
+   * @param load - Sends the request; `background` is true for stale-while-revalidate refreshes
+   * @param mode - Per-call cache control (default: 'default')
+   */
+  async fetch<T>(
+    method: string,
+    url: string,
+    params: unknown,
+    load: (background: boolean) => Promise<T>,
+    mode: CacheMode = 'default',
+  ): Promise<T> {
+    const ttlMs = this.ttlFor(url);
+    if (mode === 'bypass' || ttlMs <= 0) {
+      return load(false);
+    }
+
+    const key = createCacheKey(method, url, params, this.namespace);
+    if (mode !== 'refresh') {
+      const entry = await this.read(key);
+      const now = Date.now();
+      if (entry && entry.expiresAt > now) {
+        this.stats.hits++;
+        return entry.value as T;
+      }
+      if (entry && entry.staleUntil > now) {
+        this.stats.staleHits++;
+        this.revalidate(key, ttlMs, load);
+        return entry.value as T;
+      }
+    }
+
+    this.stats.misses++;
+    const value = await load(false);
+    await this.write(key, value, ttlMs);
+    return value;
+  }
+
+  /**
+   * TTL for an endpoint path, in ms
+   */
+  ttlFor(url: string): number {
+    return this.ttls[url] ?? this.defaultTtlMs;
+  }
+
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Removes every entry from the store
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  private revalidate<T>(key: string, ttlMs: number, load: (background: boolean) => Promise<T>): void {
+    if (this.revalidating.has(key)) {
+      return;
+    }
+    this.revalidating.add(key);
+    this.stats.revalidations++;
+    void load(true)
+      .then((value) => this.write(key, value, ttlMs))
+      .catch((error: Error) => this.log.warn?.(`Cache revalidation failed for ${key}:`, error.message))
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  private async read(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return await this.store.get(key);
+    } catch (error) {
+      this.stats.storeErrors++;
+      this.log.warn?.('Cache read failed:', (error as Error).message);
+      return undefined;
+    }
+  }
+
+  private async write(key: string, value: unknown, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    try {
+      await this.store.set(key, {
+        value,
+        storedAt: now,
+        expiresAt: now + ttlMs,
+        staleUntil: now + ttlMs + this.staleWhileRevalidateMs,
+      });
+    } catch (error) {
+      this.stats.storeErrors++;
+      this.log.warn?.('Cache write failed:', (error as Error).message);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * A cached response body with its freshness metadata
+ */
+export interface CacheEntry<T = unknown> {
+  /** Response body */
+  value: T;
+  /** Time the response was stored, in epoch ms */
+  storedAt: number;
+  /** The entry is fresh until this time, in epoch ms */
+  expiresAt: number;
+  /** The entry may be served stale while revalidating until this time, in epoch ms */
+  staleUntil: number;
+}
+
+/**
+ * Storage backend for the response cache.
+ *
+ * Implement this to back the cache with Redis, a database or any other storage.
+ * Stores may drop entries at any time; `staleUntil` is the latest time an entry
+ * is still useful.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Options for the opt-in REST response cache
+ */
+export interface CacheOptions {
+  /** Storage backend (default: in-memory LRU store) */
+  store?: CacheStore;
+  /** Capacity of the default in-memory store (default: 1000) */
+  maxEntries?: number;
+  /** TTL for endpoints without an entry in `endpointTtls`, in ms; 0 disables caching (default: 0) */
+  ttlMs?: number;
+  /**
+   * TTLs per endpoint path, in ms; 0 disables caching for that endpoint.
+   * Merged over `defaultCacheTtls`.
+   * @example endpointTtls: { '/v2/sources': 24 * 60 * 60 * 1000, '/v2/articles': 30 * 1000 }
+   */
+  endpointTtls?: Record<string, number>;
+  /** How long an expired entry may still be served while it is refreshed in the background, in ms (default: 0) */
+  staleWhileRevalidateMs?: number;
+  /**
+   * Prefix of every cache key. Clients sharing a store only share entries when their namespaces match.
+   * Default: the client's base URL and a hash of its API key.
+   */
+  namespace?: string;
+}
+
+/**
+ * Per-call cache control
+ *
+ * - `default`: serve from the cache when possible and store the response
+ * - `bypass`: neither read from nor write to the cache
+ * - `refresh`: skip the cached entry but store the new response
+ */
+export type CacheMode = 'default' | 'bypass' | 'refresh';
+
+/**
+ * Counters of the response cache, useful for tuning TTLs
+ */
+export interface CacheStats {
+  /** Requests served from a fresh entry */
+  hits: number;
+  /** Requests served from a stale entry while it was refreshed */
+  staleHits: number;
+  /** Cacheable requests that went to the network */
+  misses: number;
+  /** Background refreshes of stale entries */
+  revalidations: number;
+  /** Failed store operations; the request falls back to the network */
+  storeErrors: number;
+}
@@ -0,0 +1,230 @@
+import { AbortError, CircuitOpenError, NetworkError, ServerError, TimeoutError } from '../errors';
+import { Logger, noopLogger } from '../logger';
+import { CircuitBreakerOptions, CircuitState, CircuitStateChange, CircuitStats } from './types';
+
+interface Circuit {
+  state: CircuitState;
+  /** Outcomes recorded while closed, oldest first */
+  outcomes: { at: number; failed: boolean }[];
+  openedAt: number;
+  trialsInFlight: number;
+  trialSuccesses: number;
+}
+
+const CLIENT_CIRCUIT = '*';
+
+function isServerFailure(error: unknown): boolean {
+  return error instanceof ServerError || error instanceof TimeoutError || error instanceof NetworkError;
+}
+
+/**
+ * Circuit breaker for REST requests.
+ *
+ * While closed, outcomes are counted over a rolling window; once enough requests
+ * failed, the circuit opens and requests fail fast with a CircuitOpenError. After
+ * the cool-down, trial requests are let through: if they all succeed the circuit
+ * closes, if one fails it opens again.
+ */
+export class CircuitBreaker {
+  private readonly failureRateThreshold: number;
+  private readonly minimumRequests: number;
+  private readonly windowMs: number;
+  private readonly coolDownMs: number;
+  private readonly halfOpenMaxRequests: number;
+  private readonly scope: 'client' | 'endpoint';
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly onStateChange?: (change: CircuitStateChange) => void;
+  private readonly circuits = new Map<string, Circuit>();
+
+  constructor(
+    options: CircuitBreakerOptions = {},
+    private readonly log: Logger = noopLogger,
+  ) {
+    this.failureRateThreshold = options.failureRateThreshold ?? 0.5;
+    this.minimumRequests = Math.max(1, options.minimumRequests ?? 10);
+    this.windowMs = options.windowMs ?? 60_000;
+    this.coolDownMs = options.coolDownMs ?? 30_000;
+    this.halfOpenMaxRequests = Math.max(1, options.halfOpenMaxRequests ?? 1);
+    this.scope = options.scope ?? 'client';
+    this.isFailure = options.isFailure ?? isServerFailure;
+    this.onStateChange = options.onStateChange;
+  }
+
+  /**
+   * Runs a request attempt through the circuit of its endpoint and records the outcome
+   *
+   * @param method - HTTP method, for the error message
+   * @param endpoint - Endpoint path, e.g. `/v2/articles`
+   * @param task - The attempt
+   *
+   * @throws {CircuitOpenError} Without running the task, if the circuit is open
+   */
+  async execute<T>(method: string, endpoint: string, task: () => Promise<T>): Promise<T> {
+    const key = this.circuitFor(endpoint);
+    const circuit = this.getCircuit(key);
+    const trial = this.admit(key, circuit, method, endpoint);
+    try {
+      const result = await task();
+      this.record(key, circuit, trial, false);
+      return result;
+    } catch (error) {
+      if (error instanceof AbortError) {
+        // Says nothing about the server's health
+        if (trial && circuit.state === 'half-open') circuit.trialsInFlight--;
+      } else {
+        this.record(key, circuit, trial, this.isFailure(error));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Current state of the circuit an endpoint belongs to.
+   * An open circuit only turns half-open when the next request arrives after the cool-down.
+   */
+  getState(endpoint = CLIENT_CIRCUIT): CircuitState {
+    return this.circuits.get(this.circuitFor(endpoint))?.state ?? 'closed';
+  }
+
+  /**
+   * Snapshot of every circuit that has seen a request
+   */
+  getStats(): CircuitStats[] {
+    const now = Date.now();
+    return [...this.circuits.entries()].map(([key, circuit]) => {
+      this.prune(circuit, now);
+      const failures = circuit.outcomes.filter((outcome) => outcome.failed).length;
+      return {
+        circuit: key,
+        state: circuit.state,
+        requests: circuit.outcomes.length,
+        failures,
+        failureRate: this.failureRate(circuit),
+        ...(circuit.state === 'open' && { retryAt: circuit.openedAt + this.coolDownMs }),
+      };
+    });
+  }
+
+  /**
+   * Closes every circuit and forgets recorded outcomes
+   */
+  reset(): void {
+    this.circuits.clear();
+  }
+
+  private circuitFor(endpoint: string): string {
+    return this.scope === 'endpoint' ? endpoint : CLIENT_CIRCUIT;
+  }
+
+  private getCircuit(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], openedAt: 0, trialsInFlight: 0, trialSuccesses: 0 };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  /**
+   * Lets a request through or rejects it
+   *
+   * @returns Whether the request is a half-open trial
+   */
+  private admit(key: string, circuit: Circuit, method: string, endpoint: string): boolean {
+    if (circuit.state === 'open') {
+      const retryAt = circuit.openedAt + this.coolDownMs;
+      if (Date.now() < retryAt) {
+        throw this.openError(key, method, endpoint, retryAt - Date.now());
+      }
+      this.transition(key, circuit, 'half-open');
+    }
+    if (circuit.state === 'half-open') {
+      if (circuit.trialsInFlight + circuit.trialSuccesses >= this.halfOpenMaxRequests) {
+        throw this.openError(key, method, endpoint);
+      }
+      circuit.trialsInFlight++;
+      return true;
+    }
+    return false;
+  }
+
+  private record(key: string, circuit: Circuit, trial: boolean, failed: boolean): void {
+    if (trial) {
+      // Outcomes of trials that were still running when the circuit re-opened are ignored
+      if (circuit.state !== 'half-open') return;
+      circuit.trialsInFlight--;
+      if (failed) {
+        this.transition(key, circuit, 'open');
+      } else if (++circuit.trialSuccesses >= this.halfOpenMaxRequests) {
+        this.transition(key, circuit, 'closed');
+      }
+      return;
+    }
+    if (circuit.state !== 'closed') return;
+
+    const now = Date.now();
+    circuit.outcomes.push({ at: now, failed });
+    this.prune(circuit, now);
+    if (
+      failed &&
+      circuit.outcomes.length >= this.minimumRequests &&
+      this.failureRate(circuit) >= this.failureRateThreshold
+    ) {
+      this.transition(key, circuit, 'open');
+    }
+  }
+
+  private transition(key: string, circuit: Circuit, to: CircuitState): void {
+    const from = circuit.state;
+    const failureRate = this.failureRate(circuit);
+    circuit.state = to;
+    circuit.trialsInFlight = 0;
+    circuit.trialSuccesses = 0;
+
+    let retryAt: number | undefined;
+    if (to === 'open') {
+      circuit.openedAt = Date.now();
+      retryAt = circuit.openedAt + this.coolDownMs;
+      this.log.warn?.(
+        `Circuit breaker opened for ${describeCircuit(key)} (failure rate ${Math.round(failureRate * 100)}%), ` +
+          `failing fast for ${this.coolDownMs}ms`,
+      );
+    } else if (to === 'closed') {
+      circuit.outcomes = [];
+      this.log.info?.(`Circuit breaker closed for ${describeCircuit(key)}`);
+    } else {
+      this.log.info?.(`Circuit breaker half-open for ${describeCircuit(key)}, sending trial requests`);
+    }
+
+    // A throwing callback must not fail the request that triggered the change
+    try {
+      this.onStateChange?.({ circuit: key, from, to, failureRate, ...(retryAt !== undefined && { retryAt }) });
+    } catch (callbackError) {
+      this.log.error?.('Circuit breaker state change callback error:', callbackError);
+    }
+  }
+
+  private prune(circuit: Circuit, now: number): void {
+    const cutoff = now - this.windowMs;
+    const firstInWindow = circuit.outcomes.findIndex((outcome) => outcome.at > cutoff);
+    circuit.outcomes = firstInWindow === -1 ? [] : circuit.outcomes.slice(firstInWindow);
+  }
+
+  private failureRate(circuit: Circuit): number {
+    if (circuit.outcomes.length === 0) return 0;
+    return circuit.outcomes.filter((outcome) => outcome.failed).length / circuit.outcomes.length;
+  }
+
+  private openError(key: string, method: string, endpoint: string, retryAfterMs?: number): CircuitOpenError {
+    return new CircuitOpenError(`Circuit breaker is open for ${describeCircuit(key)} (${method} ${endpoint})`, {
+      method,
+      endpoint,
+      retryAfterMs,
+      circuit: key,
+    });
+  }
+}
+
+function describeCircuit(key: string): string {
+  return key === CLIENT_CIRCUIT ? 'all endpoints' : key;
+}
@@ -0,0 +1,2 @@
+export { CircuitState, CircuitBreakerOptions, CircuitStateChange, CircuitStats } from './types';
+export { CircuitBreaker } from './circuitBreaker';
@@ -0,0 +1,59 @@
+/**
+ * - `closed`: requests flow normally and outcomes are recorded
+ * - `open`: requests fail fast with a CircuitOpenError until the cool-down has passed
+ * - `half-open`: a limited number of trial requests decide whether to close or re-open
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options for the REST circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /** Failure rate (0-1) within the window that opens the circuit (default: 0.5) */
+  failureRateThreshold?: number;
+  /** Requests needed in the window before the failure rate is evaluated (default: 10) */
+  minimumRequests?: number;
+  /** Rolling window over which outcomes are counted, in ms (default: 60000) */
+  windowMs?: number;
+  /** Time the circuit stays open before allowing trial requests, in ms (default: 30000) */
+  coolDownMs?: number;
+  /** Trial requests allowed while half-open; all must succeed to close the circuit (default: 1) */
+  halfOpenMaxRequests?: number;
+  /**
+   * `'endpoint'` keeps a separate circuit per endpoint path, so failing `/v2/sources`
+   * calls do not block `/v2/articles`; `'client'` shares one circuit (default: 'client')
+   */
+  scope?: 'client' | 'endpoint';
+  /**
+   * Decides whether an error counts as a failure.
+   * Default: server errors (5xx), timeouts and network errors.
+   */
+  isFailure?: (error: unknown) => boolean;
+  /** Called whenever a circuit changes state; errors it throws are logged, not rethrown */
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+export interface CircuitStateChange {
+  /** Endpoint path of the circuit, or `'*'` for the client-wide circuit */
+  circuit: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** Failure rate in the window when the change happened */
+  failureRate: number;
+  /** When an open circuit will allow trial requests, if it just opened */
+  retryAt?: number;
+}
+
+/**
+ * Snapshot of a single circuit
+ */
+export interface CircuitStats {
+  circuit: string;
+  state: CircuitState;
+  /** Requests recorded in the current window */
+  requests: number;
+  failures: number;
+  failureRate: number;
+  /** When an open circuit will allow trial requests */
+  retryAt?: number;
+}
@@ -1,61 +1,301 @@
-import axios, { AxiosInstance } from 'axios';
-import { ApiClientConfig } from '../types';
+import axios from 'axios';
+import { ApiClientConfig, RequestOptions, WithMetadata } from '../types';
 import { Logger, createLogger } from '../logger';
+import { AbortError, CircuitOpenError, FinlightApiError, RateLimitError, createHttpError } from '../errors';
+import { ResolvedRetryPolicy, computeRetryDelay, exceedsMaxDelay, isRetryable, resolveRetryPolicy } from '../retry';
+import { RateLimiter } from '../rateLimit';
+import { CircuitBreaker } from '../circuitBreaker';
+import { QuotaTracker } from '../quota';
+import { ResponseCache, createCacheKey, createCacheNamespace } from '../cache';
+import { getHeader, getRequestId, parseRetryAfter, throwIfAborted } from '../utils';
+import { AxiosTransport, FetchTransport, Transport, TransportResponse } from '../transport';
+import { Middleware, composeMiddleware } from '../middleware';
+import { RequestCoalescer } from './requestCoalescer';
 
 export class ApiClient {
-  private client: AxiosInstance;
+  private readonly transport: Transport;
   private readonly log: Logger;
+  private readonly retryPolicy: ResolvedRetryPolicy;
+  readonly rateLimiter?: RateLimiter;
+  readonly circuitBreaker?: CircuitBreaker;
+  readonly quota: QuotaTracker;
+  readonly cache?: ResponseCache;
+  private readonly coalescer?: RequestCoalescer;
+  private readonly middleware: Middleware[] = [];
 
   constructor(private config: ApiClientConfig) {
     this.log = createLogger(config.logger ?? console, config.logLevel ?? 'info');
-    this.client = axios.create({
-      baseURL: config.baseUrl,
-      timeout: config.timeout,
-      headers: { 'X-API-KEY': config.apiKey },
-    });
+    this.retryPolicy = resolveRetryPolicy(config.retryPolicy, config.retryCount);
+    this.quota = new QuotaTracker(config.quota, this.log);
+    this.rateLimiter = config.rateLimit ? new RateLimiter(config.rateLimit) : undefined;
+    if (config.circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(config.circuitBreaker === true ? {} : config.circuitBreaker, this.log);
+    }
+    if (config.cache) {
+      const options = config.cache === true ? {} : config.cache;
+      this.cache = new ResponseCache(
+        { ...options, namespace: options.namespace ?? createCacheNamespace(config.baseUrl, config.apiKey) },
+        this.log,
+      );
+    }
+    if (config.coalesceRequests) {
+      this.coalescer = new RequestCoalescer();
+    }
+    this.transport = this.createTransport(config.transport);
+    config.middleware?.forEach((middleware) => this.use(middleware));
+  }
+
+  /**
+   * Adds a middleware around every request attempt. Middleware run in the order they were added.
+   *
+   * @returns The client, for chaining
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Sends a request through the cache, coalescing, circuit breaker, rate limiter and retry policy
+   *
+   * @param method - HTTP method
+   * @param url - Endpoint path
+   * @param data - Query params for GET, body for POST
+   * @param options - Per-call options
+   *
+   * @throws {AbortError} If the signal is aborted; aborted calls are never retried
+   * @throws {CircuitOpenError} If the circuit breaker is open; never retried
+   * @throws {FinlightApiError} If the request fails after all retries
+   */
+  async request<T>(method: 'GET' | 'POST', url: string, data?: any, options: RequestOptions = {}): Promise<T> {
+    const { data: result } = await this.requestWithMetadata<T>(method, url, data, options);
+    return result;
+  }
+
+  /**
+   * Like `request`, but also resolves the status, headers and timing of the response
+   *
+   * @throws {AbortError} If the signal is aborted
+   * @throws {CircuitOpenError} If the circuit breaker is open
+   * @throws {FinlightApiError} If the request fails after all retries
+   */
+  async requestWithMetadata<T>(
+    method: 'GET' | 'POST',
+    url: string,
+    data?: any,
+    options: RequestOptions = {},
+  ): Promise<WithMetadata<T>> {
+    throwIfAborted(options.signal);
+    if (!this.cache) {
+      return this.coalesce<T>(method, url, data, options);
+    }
+    let loaded = false;
+    const result = await this.cache.fetch(
+      method,
+      url,
+      this.keyParams(data, options),
+      (background) => {
+        loaded ||= !background;
+        // A background refresh must outlive the caller that triggered it
+        return this.coalesce<T>(method, url, data, background ? { ...options, signal: undefined } : options);
+      },
+      options.cache,
+    );
+    return loaded ? result : { ...result, metadata: { ...result.metadata, cached: true } };
   }
 
-  async request<T>(method: 'GET' | 'POST', url: string, data?: any): Promise<T> {
+  /**
+   * Shares the request with identical concurrent calls, if `coalesceRequests` is enabled.
+   * Calls only share a request when their timeout, retry count and priority match too,
+   * so no caller silently runs with another caller's options.
+   */
+  private coalesce<T>(
+    method: 'GET' | 'POST',
+    url: string,
+    data: any,
+    options: RequestOptions,
+  ): Promise<WithMetadata<T>> {
+    if (!this.coalescer) {
+      return this.send<T>(method, url, data, options, options.signal);
+    }
+    const { timeout, retryCount, priority } = options;
+    const key = createCacheKey(method, url, { params: this.keyParams(data, options), timeout, retryCount, priority });
+    return this.coalescer.run(key, (signal) => this.send<T>(method, url, data, options, signal), options.signal);
+  }
+
+  /**
+   * Params that identify a request for the cache and the coalescer.
+   * Calls with different headers may get different responses, so headers are part of the key.
+   */
+  private keyParams(data: any, options: RequestOptions): unknown {
+    return options.headers ? { data, headers: options.headers } : data;
+  }
+
+  /**
+   * Sends a request, retrying failed attempts according to the retry policy
+   */
+  private async send<T>(
+    method: 'GET' | 'POST',
+    url: string,
+    data: any,
+    options: RequestOptions,
+    signal?: AbortSignal,
+  ): Promise<WithMetadata<T>> {
+    const startedAt = Date.now();
+    const maxAttempts = options.retryCount ?? this.retryPolicy.maxAttempts;
     let attempts = 0;
-    const maxRetries = this.config.retryCount ?? 3;
+    let previousDelay = 0;
 
-    while (attempts < maxRetries) {
+    while (true) {
       try {
-        const response = await this.client.request<T>({
-          method,
-          url,
-          ...(method === 'GET' ? { params: data } : { data }),
-        });
-        return response.data;
-      } catch (error) {
+        const response = await this.guard(method, url, () => this.attempt(method, url, data, options, signal));
+        return {
+          data: response.data as T,
+          metadata: {
+            status: response.status,
+            headers: response.headers,
+            requestId: getRequestId(response.headers),
+            durationMs: Date.now() - startedAt,
+            attempts: attempts + 1,
+            cached: false,
+          },
+        };
+      } catch (rawError) {
         attempts++;
+        const error = this.toApiError(rawError, method, url);
+        if (error instanceof AbortError || error instanceof CircuitOpenError) {
+          throw error;
+        }
+        if (error instanceof RateLimitError) {
+          this.rateLimiter?.onRateLimited(error.retryAfterMs);
+        }
+        const waitTime = computeRetryDelay(this.retryPolicy, attempts, error, previousDelay);
 
-        // Exit if max retries are reached or the error is non-retryable
-        if (attempts === maxRetries || !this.isRetryableError(error)) {
+        // Exit if the attempt or time budget is exhausted or the error is non-retryable
+        if (
+          attempts >= maxAttempts ||
+          !isRetryable(this.retryPolicy, error, attempts) ||
+          exceedsMaxDelay(this.retryPolicy, error) ||
+          this.exceedsElapsedBudget(startedAt, waitTime)
+        ) {
           this.log.error?.('Request failed:', error);
           throw error;
         }
 
-        // Wait for some time before retrying
-        const waitTime = this.calculateBackoff(attempts);
-        this.log.warn?.(`Retrying (${attempts}/${maxRetries}) after ${waitTime}ms:`, (error as Error).message);
-        await this.delay(waitTime);
+        this.log.warn?.(`Retrying (${attempts}/${maxAttempts}) after ${waitTime}ms:`, error.message);
+        previousDelay = waitTime;
+        await this.delay(waitTime, signal);
       }
     }
+  }
 
-    throw new Error('Max retries reached');
+  /**
+   * Sends a single attempt through the rate limiter and middleware
+   */
+  private async attempt(
+    method: 'GET' | 'POST',
+    url: string,
+    data: any,
+    options: RequestOptions,
+    signal?: AbortSignal,
+  ): Promise<TransportResponse> {
+    const response = await this.schedule(
+      () => {
+        // The rate limiter drops calls aborted while queued; this covers calls sent without one
+        throwIfAborted(signal);
+        const handler = composeMiddleware(this.middleware, (request) => this.transport.request(request));
+        return handler({
+          method,
+          baseUrl: this.config.baseUrl,
+          url,
+          headers: { 'X-API-KEY': this.config.apiKey, ...options.headers },
+          timeout: options.timeout ?? this.config.timeout,
+          signal,
+          ...(method === 'GET' ? { params: data } : { data }),
+        });
+      },
+      options.priority,
+      signal,
+    );
+    this.quota.updateFromResponse(response.status, response.headers);
+    if (response.status >= 400) {
+      throw this.toHttpError(response, method, url);
+    }
+    this.rateLimiter?.onSuccess();
+    return response;
+  }
+
+  /**
+   * Runs a single attempt through the circuit breaker, if one is configured
+   */
+  private guard<R>(method: string, url: string, task: () => Promise<R>): Promise<R> {
+    return this.circuitBreaker ? this.circuitBreaker.execute(method, url, task) : task();
   }
 
-  private isRetryableError(error: any): boolean {
-    return [429, 500, 502, 503, 504].includes(error.response?.status);
+  /**
+   * Runs a single attempt through the rate limiter, if one is configured
+   */
+  private schedule<R>(task: () => Promise<R>, priority?: number, signal?: AbortSignal): Promise<R> {
+    return this.rateLimiter ? this.rateLimiter.schedule(task, priority, signal) : task();
   }
 
-  private calculateBackoff(attempt: number): number {
-    const baseWait = 500; // Base wait time in milliseconds
-    return baseWait * Math.pow(2, attempt - 1); // Exponential backoff (e.g., 500ms, 1000ms, 2000ms)
+  private createTransport(transport: ApiClientConfig['transport'] = 'axios'): Transport {
+    if (transport === 'fetch') {
+      return new FetchTransport();
+    }
+    if (transport === 'axios') {
+      return new AxiosTransport(axios.create());
+    }
+    return transport;
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  /**
+   * Maps an error response to the matching FinlightApiError subclass
+   */
+  private toHttpError(response: TransportResponse, method: string, endpoint: string): FinlightApiError {
+    return createHttpError(response.status, {
+      method,
+      endpoint,
+      requestId: getRequestId(response.headers),
+      body: response.data,
+      retryAfterMs: parseRetryAfter(getHeader(response.headers, 'retry-after')),
+    });
+  }
+
+  /**
+   * Wraps anything thrown that is not already a FinlightApiError.
+   * Transports throw TimeoutError, AbortError and NetworkError themselves.
+   */
+  private toApiError(error: unknown, method: string, endpoint: string): FinlightApiError {
+    if (error instanceof FinlightApiError) {
+      return error;
+    }
+    return new FinlightApiError((error as Error)?.message ?? 'Unknown error', { method, endpoint, cause: error });
+  }
+
+  private exceedsElapsedBudget(startedAt: number, waitTime: number): boolean {
+    const { maxElapsedMs } = this.retryPolicy;
+    return maxElapsedMs !== undefined && Date.now() - startedAt + waitTime > maxElapsedMs;
+  }
+
+  /**
+   * Waits before the next attempt, rejecting with an AbortError if the signal fires first
+   */
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AbortError());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new AbortError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 }
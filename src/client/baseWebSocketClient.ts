@@ -1,7 +1,14 @@
+import { EventEmitter } from 'events';
 import WebSocket from 'ws';
 import { ApiClientConfig } from '../types';
 import { Logger, createLogger } from '../logger';
+import { PayloadValidator } from '../schema';
+import { QuotaTracker } from '../quota';
+import { DedupArticle, DedupIdentity, DedupOptions, DedupStore, MemoryDedupStore, getArticleIdentity } from '../dedup';
 import { CLIENT_VERSION } from '../version';
+import { AdmittedEvent, PreemptedEvent, WebSocketClientEvents } from './webSocketEvents';
+import { GapFillOptions } from './gapFill';
+import { STATE_TRANSITIONS, WebSocketState, WebSocketStateError } from './webSocketState';
 
 export interface BaseWebSocketClientOptions {
   pingInterval?: number; // 25 seconds (matches HEARTBEAT_MS)
@@ -11,15 +18,35 @@ export interface BaseWebSocketClientOptions {
   connectionLifetime?: number; // 115 minutes (2h - 5m)
   onClose?: (code: number, reason: string) => void;
   takeover?: boolean; // Whether to takeover existing connections
+  /**
+   * How the connection is renewed after `connectionLifetime`:
+   * - `reconnect`: close, then connect again (default)
+   * - `overlap`: open a replacement with takeover and close the old connection once the replacement is admitted
+   */
+  rotationMode?: 'reconnect' | 'overlap';
+  /**
+   * Duplicate suppression; enabled by default with an in-memory store of the last 1000 links.
+   * Pass `false` to deliver every message.
+   */
+  dedup?: boolean | DedupOptions;
+  /**
+   * Replay articles missed while reconnecting, fetched over REST after re-admission.
+   * `WebSocketClient` only; ignored by the raw client.
+   */
+  gapFill?: boolean | GapFillOptions;
 }
 
-export abstract class BaseWebSocketClient<TArticle, TRequestPayload> {
+export abstract class BaseWebSocketClient<TArticle extends DedupArticle, TRequestPayload> {
   private webSocket?: WebSocket;
   private pingInterval?: NodeJS.Timeout;
   private pongWatchdog?: NodeJS.Timeout;
   private rotationTimeout?: NodeJS.Timeout;
+  private cancelSleep?: () => void;
   private _stop = false;
   protected readonly log: Logger;
+  protected readonly payloads: PayloadValidator;
+  protected readonly quota: QuotaTracker;
+  private readonly events = new EventEmitter();
 
   // Configuration
   private readonly pingIntervalMs: number;
@@ -29,24 +56,36 @@ export abstract class BaseWebSocketClient<TArticle, TRequestPayload> {
   private readonly connectionLifetimeMs: number;
   private readonly onClose?: (code: number, reason: string) => void;
   private readonly takeover: boolean;
+  private readonly rotationMode: 'reconnect' | 'overlap';
+  private readonly dedupStore?: DedupStore;
+  private readonly dedupIdentity: DedupIdentity = 'link';
 
   // State tracking
+  private state: WebSocketState = 'idle';
+  private running = false; // Whether a connect() loop is active
+  private payload?: TRequestPayload; // Prepared subscription, sent on every (re)connect
+  private onArticle?: (article: TArticle) => void;
+  private deliveries: Promise<void> = Promise.resolve(); // Articles are delivered one at a time, in arrival order
+  private settleConnection?: { resolve: () => void; reject: (error: Error) => void };
+  // Pending overlap replacement, and a preemption of the current connection held until the replacement is admitted
+  private rotation?: { socket: WebSocket; clientNonce: string; timeout: NodeJS.Timeout; preemption?: PreemptedEvent };
+  private retry?: { state: 'backing-off' | 'rate-limited' | 'blocked'; reason: string }; // Why the next reconnect waits
   private currentReconnectDelayMs: number;
+  private reconnectAttempts = 0;
   private lastPongTime = 0;
   private connectionStartTime = 0;
   private reconnectAt = 0; // Timestamp when we can reconnect (for rate limits/blocks)
   private leaseId?: string; // Store lease ID from admission
   private clientNonce?: string; // For idempotent handshake
 
-  // Duplicate detection (optional, can be overridden by subclasses)
-  protected recentArticleLinks = new Set<string>();
-  protected readonly RECENT_ARTICLE_CACHE_SIZE = 10;
-
   constructor(
     protected readonly config: ApiClientConfig,
     options: BaseWebSocketClientOptions = {},
+    quota?: QuotaTracker,
   ) {
     this.log = createLogger(config.logger ?? console, config.logLevel ?? 'info');
+    this.payloads = new PayloadValidator(config.schemaValidation, this.log);
+    this.quota = quota ?? new QuotaTracker(config.quota, this.log);
     this.pingIntervalMs = (options.pingInterval ?? 25) * 1000;
     this.pongTimeoutMs = (options.pongTimeout ?? 60) * 1000;
     this.baseReconnectDelayMs = (options.baseReconnectDelay ?? 0.5) * 1000;
@@ -54,6 +93,12 @@ export abstract class BaseWebSocketClient<TArticle, TRequestPayload> {
     this.connectionLifetimeMs = (options.connectionLifetime ?? 115 * 60) * 1000;
     this.onClose = options.onClose;
     this.takeover = options.takeover ?? false;
+    this.rotationMode = options.rotationMode ?? 'reconnect';
+    if (options.dedup !== false) {
+      const dedup = options.dedup === true || options.dedup === undefined ? {} : options.dedup;
+      this.dedupStore = dedup.store ?? new MemoryDedupStore(dedup);
+      this.dedupIdentity = dedup.identity ?? 'link';
+    }
     this.currentReconnectDelayMs = this.baseReconnectDelayMs;
 
     process.on('SIGINT', () => {
@@ -67,84 +112,158 @@ export abstract class BaseWebSocketClient<TArticle, TRequestPayload> {
   protected abstract getLogPrefix(): string;
   protected abstract transformMessage(data: any): TArticle;
 
-  // Optional: Get unique identifier for duplicate detection (override to enable)
-  protected getArticleIdentifier(_article: TArticle): string | null {
-    return null; // Default: no duplicate detection
+  // Optional: Normalize the request payload before connecting (e.g. render query builders)
+  protected preparePayload(requestPayload: TRequestPayload): TRequestPayload {
+    return requestPayload;
   }
 
-  // Check if article is duplicate
-  protected isDuplicate(identifier: string): boolean {
-    return this.recentArticleLinks.has(identifier);
+  // Optional: Get unique identifier for duplicate detection (default: from the `dedup.identity` option)
+  protected getArticleIdentifier(article: TArticle): string | null {
+    return getArticleIdentity(article, this.dedupIdentity);
   }
 
-  // Track article to prevent duplicates
-  protected trackArticle(identifier: string): void {
-    this.recentArticleLinks.add(identifier);
+  // Optional: Namespace of this stream's identities, so one dedup store can be shared by several clients
+  protected getDedupNamespace(): string {
+    return 'articles';
+  }
 
-    // Maintain cache size by removing oldest entry when limit is reached
-    if (this.recentArticleLinks.size > this.RECENT_ARTICLE_CACHE_SIZE) {
-      const firstLink = this.recentArticleLinks.values().next().value;
-      if (firstLink) {
-        this.recentArticleLinks.delete(firstLink);
+  // Optional: React to the server admitting the subscription (e.g. fill a reconnect gap)
+  protected afterAdmission?(event: AdmittedEvent): void;
+
+  // Check if article is duplicate, recording it otherwise. Store failures let the article through.
+  private async isDuplicate(article: TArticle): Promise<boolean> {
+    if (!this.dedupStore) {
+      return false;
+    }
+    try {
+      const identifier = this.getArticleIdentifier(article);
+      if (!identifier) {
+        return false;
+      }
+      if (await this.dedupStore.add(`${this.getDedupNamespace()}:${identifier}`)) {
+        return false;
       }
+      this.log.debug?.(`⏭️ ${this.getLogPrefix()}Skipping duplicate article: ${identifier}`);
+      return true;
+    } catch (error) {
+      this.log.warn?.(`⚠️ ${this.getLogPrefix()}Duplicate check failed:`, error);
+      return false;
     }
   }
 
-  public async connect(requestPayload: TRequestPayload, onMessage: (article: TArticle) => void): Promise<void> {
-    while (!this._stop) {
-      try {
-        this.log.info?.(`🔄 ${this.getLogPrefix()}Attempting to connect...`);
-
-        // Prepare headers
-        const headers: Record<string, string> = { 'x-api-key': this.config.apiKey, 'x-client-version': CLIENT_VERSION };
-        if (this.takeover) {
-          headers['x-takeover'] = 'true';
-          this.log.info?.(`🔄 ${this.getLogPrefix()}Connecting with takeover=true`);
-        }
-
-        this.webSocket = new WebSocket(this.getWebSocketUrl(), { headers });
-
-        await new Promise<void>((resolve, reject) => {
-          if (!this.webSocket) return reject(new Error('WebSocket not initialized'));
-
-          this.webSocket.on('open', () => {
-            this.log.info?.(`✅ ${this.getLogPrefix()}Connected.`);
+  /**
+   * Registers a listener for a client event
+   *
+   * @returns The client, for chaining
+   *
+   * @example
+   * ```typescript
+   * client
+   *   .on('admitted', ({ leaseId }) => console.log(`Admitted with lease ${leaseId}`))
+   *   .on('article', (article) => console.log(article.title));
+   * ```
+   */
+  public on<E extends keyof WebSocketClientEvents<TArticle>>(
+    event: E,
+    listener: WebSocketClientEvents<TArticle>[E],
+  ): this {
+    this.events.on(event, listener);
+    return this;
+  }
 
-            // Reset backoff on successful connection
-            this.resetBackoff();
-            this.reconnectAt = 0; // Clear any reconnectAt restriction
+  /**
+   * Registers a listener that is removed after its first call
+   */
+  public once<E extends keyof WebSocketClientEvents<TArticle>>(
+    event: E,
+    listener: WebSocketClientEvents<TArticle>[E],
+  ): this {
+    this.events.once(event, listener);
+    return this;
+  }
 
-            this.lastPongTime = Date.now();
-            this.connectionStartTime = Date.now(); // Track connection start
+  /**
+   * Removes a listener added with `on` or `once`
+   */
+  public off<E extends keyof WebSocketClientEvents<TArticle>>(
+    event: E,
+    listener: WebSocketClientEvents<TArticle>[E],
+  ): this {
+    this.events.off(event, listener);
+    return this;
+  }
 
-            this.startPingInterval();
-            this.startPongWatchdog();
-            this.startProactiveRotation();
+  // Listener errors are logged so they never break the connection loop
+  protected emit<E extends keyof WebSocketClientEvents<TArticle>>(
+    event: E,
+    ...args: Parameters<WebSocketClientEvents<TArticle>[E]>
+  ): void {
+    for (const listener of this.events.listeners(event)) {
+      try {
+        listener(...args);
+      } catch (listenerError) {
+        this.log.error?.(`❌ ${this.getLogPrefix()}Listener error (${event}):`, listenerError);
+      }
+    }
+  }
 
-            // Prepare first message with handshake fields
-            this.clientNonce = this.generateUuid();
+  /**
+   * Returns the current connection state. Listen to `stateChange` to be notified of changes.
+   */
+  public getState(): WebSocketState {
+    return this.state;
+  }
 
-            // Create message with handshake fields
-            const messageData = { ...requestPayload, clientNonce: this.clientNonce };
+  /**
+   * Connects and keeps the connection alive until `stop()` is called.
+   * Articles are delivered to `onMessage`, if given, and to `article` listeners.
+   * A stopped or preempted client can connect again.
+   *
+   * @returns A promise that resolves once the client has stopped
+   * @throws {WebSocketStateError} If the client is already connecting or connected
+   * @throws {ParamsValidationError} If the request payload is invalid
+   */
+  public async connect(requestPayload: TRequestPayload, onMessage?: (article: TArticle) => void): Promise<void> {
+    if (this.running) {
+      throw new WebSocketStateError(this.state);
+    }
+    const payload = this.preparePayload(requestPayload);
+    this.running = true;
+    this._stop = false;
+    this.payload = payload;
+    this.onArticle = onMessage;
 
-            // Send article search request to $default route
-            this.webSocket?.send(JSON.stringify(messageData));
-          });
+    try {
+      await this.runConnectionLoop();
+      await this.deliveries;
+    } finally {
+      this.running = false;
+    }
+  }
 
-          this.webSocket.on('message', (data) => {
-            this.handleMessage(data.toString(), onMessage);
-          });
+  private async runConnectionLoop(): Promise<void> {
+    while (!this._stop) {
+      try {
+        this.log.info?.(`🔄 ${this.getLogPrefix()}Attempting to connect...`);
+        this.retry = undefined;
+        this.transition(
+          'connecting',
+          this.reconnectAttempts ? `Reconnect attempt ${this.reconnectAttempts}` : 'Connecting',
+        );
 
-          this.webSocket.on('close', (code, reason) => {
-            this.handleClose(code, reason.toString());
-            resolve();
-          });
+        if (this.takeover) {
+          this.log.info?.(`🔄 ${this.getLogPrefix()}Connecting with takeover=true`);
+        }
 
-          this.webSocket.on('error', (error) => {
-            this.log.error?.(`❌ ${this.getLogPrefix()}Connection error:`, error);
-            reject(error);
-          });
+        // Settled by the current socket; after an overlap rotation that is the replacement
+        await new Promise<void>((resolve, reject) => {
+          this.settleConnection = { resolve, reject };
+          this.webSocket = this.openSocket(this.takeover);
         });
+
+        if (!this._stop) {
+          await this.handleReconnect();
+        }
       } catch (error) {
         this.log.error?.(`❌ ${this.getLogPrefix()}Connection error:`, error);
 
@@ -152,8 +271,13 @@ export abstract class BaseWebSocketClient<TArticle, TRequestPayload> {
         if (error instanceof Error && error.message.includes('429')) {
           const retryAfterSeconds = 60;
           this.reconnectAt = Date.now() + retryAfterSeconds * 1000;
+          this.retry = { state: 'rate-limited', reason: 'Server rejected connection (429)' };
           this.log.warn?.(`⏰ ${this.getLogPrefix()}Server rejected connection (429) - waiting ${retryAfterSeconds}s before retry`);
         }
+        this.retry ??= {
+          state: 'backing-off',
+          reason: `Connection error: ${error instanceof Error ? error.message : String(error)}`,
+        };
 
         if (!this._stop) {
           await this.handleReconnect();
@@ -162,11 +286,192 @@ export abstract class BaseWebSocketClient<TArticle, TRequestPayload> {
     }
   }
 
-  private handleMessage(message: string, onArticle: (article: TArticle) => void): void {
+  private openSocket(takeover: boolean): WebSocket {
+    // Prepare headers
+    const headers: Record<string, string> = { 'x-api-key': this.config.apiKey, 'x-client-version': CLIENT_VERSION };
+    if (takeover) {
+      headers['x-takeover'] = 'true';
+    }
+
+    const socket = new WebSocket(this.getWebSocketUrl(), { headers });
+    socket.on('open', () => this.handleOpen(socket));
+    socket.on('message', (data) => this.handleMessage(data.toString(), socket));
+    socket.on('close', (code, reason) => this.handleSocketClose(socket, code, reason.toString()));
+    socket.on('error', (error) => {
+      if (socket === this.webSocket) {
+        this.log.error?.(`❌ ${this.getLogPrefix()}Connection error:`, error);
+        this.settleConnection?.reject(error);
+      } else {
+        this.log.warn?.(`⚠️ ${this.getLogPrefix()}Replacement connection error:`, error);
+      }
+    });
+    return socket;
+  }
+
+  private handleOpen(socket: WebSocket): void {
+    if (socket === this.rotation?.socket) {
+      this.log.info?.(`🔄 ${this.getLogPrefix()}Replacement connection open, waiting for admission`);
+      socket.send(JSON.stringify({ ...this.payload, clientNonce: this.rotation.clientNonce }));
+      return;
+    }
+    if (socket !== this.webSocket) {
+      return;
+    }
+
+    this.log.info?.(`✅ ${this.getLogPrefix()}Connected.`);
+    this.transition('open', 'Socket opened');
+
+    // Reset backoff on successful connection
+    this.resetBackoff();
+    this.reconnectAt = 0; // Clear any reconnectAt restriction
+
+    this.startConnectionTimers();
+
+    // Prepare first message with handshake fields
+    this.clientNonce = this.generateUuid();
+
+    // Create message with handshake fields
+    const messageData = { ...this.payload, clientNonce: this.clientNonce };
+
+    // Send article search request to $default route
+    socket.send(JSON.stringify(messageData));
+    this.emit('connected');
+  }
+
+  private handleSocketClose(socket: WebSocket, code: number, reason: string): void {
+    if (socket === this.webSocket) {
+      if (this.rotation && this.rotation.socket !== socket) {
+        // The old connection went away first, e.g. closed after our own takeover: hand over to the replacement
+        this.log.info?.(`🔄 ${this.getLogPrefix()}Previous connection closed during rotation: ${code} - ${reason}`);
+        this.clearTimers();
+        this.webSocket = this.rotation.socket;
+        return;
+      }
+      this.abandonRotation();
+      this.handleClose(code, reason);
+      this.settleConnection?.resolve();
+    } else if (socket === this.rotation?.socket) {
+      this.log.warn?.(
+        `⚠️ ${this.getLogPrefix()}Replacement connection closed before admission: ${code} - ${reason}`,
+      );
+      this.fallBackToReconnect();
+    } else {
+      this.log.debug?.(`${this.getLogPrefix()}Previous connection closed: ${code} - ${reason}`);
+    }
+  }
+
+  /**
+   * Connects and yields articles as they arrive. The iteration ends when `stop()` is called,
+   * and breaking out of the loop stops the client.
+   *
+   * @throws {ParamsValidationError} If the request payload is invalid
+   *
+   * @example
+   * ```typescript
+   * for await (const article of client.stream({ query: 'Nvidia' })) {
+   *   console.log(article.title);
+   * }
+   * ```
+   */
+  public async *stream(requestPayload: TRequestPayload): AsyncGenerator<TArticle, void, undefined> {
+    const buffer: TArticle[] = [];
+    let wake: (() => void) | undefined;
+    let finished = false;
+    let failure: unknown;
+
+    const connection = this.connect(requestPayload, (article) => {
+      buffer.push(article);
+      wake?.();
+    })
+      .catch((error: unknown) => {
+        failure = error;
+      })
+      .finally(() => {
+        finished = true;
+        wake?.();
+      });
+
+    try {
+      while (true) {
+        if (buffer.length > 0) {
+          yield buffer.shift()!;
+        } else if (failure !== undefined) {
+          throw failure;
+        } else if (finished) {
+          return;
+        } else {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = undefined;
+        }
+      }
+    } finally {
+      if (!finished) {
+        this.stop();
+        await connection;
+      }
+    }
+  }
+
+  /**
+   * Passes an article to the `connect` callback and `article` listeners, unless it is a duplicate
+   *
+   * @returns Whether the article was delivered
+   */
+  protected async deliverArticle(article: TArticle): Promise<boolean> {
+    if (await this.isDuplicate(article)) {
+      return false;
+    }
+
+    try {
+      this.onArticle?.(article);
+    } catch (callbackError) {
+      this.log.error?.(`❌ ${this.getLogPrefix()}Article callback error:`, callbackError);
+    }
+    this.emit('article', article);
+    return true;
+  }
+
+  /**
+   * Delivers articles after every article already queued, one at a time and in order
+   *
+   * @returns How many were delivered, i.e. were not duplicates
+   */
+  protected queueDeliveries(articles: TArticle[]): Promise<number> {
+    const delivered = this.deliveries.then(async () => {
+      let count = 0;
+      for (const article of articles) {
+        if (await this.deliverArticle(article)) {
+          count++;
+        }
+      }
+      return count;
+    });
+    this.deliveries = delivered.then(() => undefined);
+    return delivered;
+  }
+
+  private queueDelivery(article: TArticle): void {
+    void this.queueDeliveries([article]);
+  }
+
+  private handleMessage(message: string, socket: WebSocket): void {
     try {
       const msg = JSON.parse(message);
       const msgAction = msg.action;
 
+      if (socket !== this.webSocket && socket !== this.rotation?.socket) {
+        // Articles still arriving on the previous connection during an overlap rotation are delivered (deduplicated)
+        if (msgAction === 'sendArticle') {
+          this.queueDelivery(this.transformMessage(msg.data || {}));
+        }
+        return;
+      }
+      if (socket === this.rotation?.socket && !['admit', 'sendArticle', 'pong'].includes(msgAction)) {
+        this.log.warn?.(`⚠️ ${this.getLogPrefix()}Replacement connection received ${msgAction}`);
+        this.fallBackToReconnect();
+        return;
+      }
+
       if (msgAction === 'pong') {
         const pingTime = msg.t;
         if (pingTime) {
@@ -175,51 +480,76 @@ export abstract class BaseWebSocketClient<TArticle, TRequestPayload> {
         } else {
           this.log.debug?.(`← ${this.getLogPrefix()}PONG received`);
         }
-        this.lastPongTime = Date.now();
+        if (socket === this.webSocket) {
+          this.lastPongTime = Date.now();
+        }
       } else if (msgAction === 'admit') {
+        const previousLeaseId = this.leaseId;
+        const rotated = socket === this.rotation?.socket;
+        const preemption = this.rotation?.preemption;
+        if (rotated && preemption?.newLeaseId && preemption.newLeaseId !== msg.leaseId) {
+          // Another client took over the lease during the rotation; don't take it back.
+          // Without a `newLeaseId` the takeover can't be told apart from ours and is assumed to be ours.
+          this.handlePreemption(preemption);
+          return;
+        }
+        if (rotated) {
+          this.completeRotation();
+        }
         this.leaseId = msg.leaseId;
+        this.quota.updateFromAdmission(msg);
         const serverNow = msg.serverNow;
         const clientNonce = msg.clientNonce;
         this.log.info?.(`✅ ${this.getLogPrefix()}Admitted (leaseId: ${this.leaseId}, serverNow: ${serverNow})`);
         if (clientNonce && clientNonce !== this.clientNonce) {
           this.log.warn?.(`⚠️ ${this.getLogPrefix()}Nonce mismatch: expected ${this.clientNonce}, got ${clientNonce}`);
         }
+        if (rotated) {
+          this.log.info?.(`🔄 ${this.getLogPrefix()}Rotated to lease ${this.leaseId} without a gap`);
+          this.emit('rotated', { leaseId: msg.leaseId, ...(previousLeaseId && { previousLeaseId }) });
+          return;
+        }
+        const admitted: AdmittedEvent = { leaseId: msg.leaseId, ...(typeof serverNow === 'number' && { serverNow }) };
+        this.transition('admitted', `Admitted with lease ${this.leaseId}`);
+        this.emit('admitted', admitted);
+        this.afterAdmission?.(admitted);
       } else if (msgAction === 'preempted') {
-        const reason = msg.reason || 'unknown';
-        const newLeaseId = msg.newLeaseId || '';
-        this.log.warn?.(`🔄 ${this.getLogPrefix()}Connection preempted: ${reason} (new lease: ${newLeaseId})`);
-        this._stop = true;
-        this.webSocket?.close(1000, 'Preempted by server');
+        const preemption: PreemptedEvent = {
+          reason: msg.reason || 'unknown',
+          ...(msg.newLeaseId && { newLeaseId: msg.newLeaseId }),
+        };
+        if (this.rotation) {
+          // Our own replacement's takeover, unless its lease turns out different from `newLeaseId` once it is admitted
+          this.log.info?.(
+            `🔄 ${this.getLogPrefix()}Preempted during rotation (new lease: ${preemption.newLeaseId ?? ''})`,
+          );
+          this.rotation.preemption = preemption;
+          return;
+        }
+        this.handlePreemption(preemption);
       } else if (msgAction === 'sendArticle') {
         const data = msg.data || {};
-        const transformedArticle = this.transformMessage(data);
-
-        // Check for duplicates if identifier is provided
-        const identifier = this.getArticleIdentifier(transformedArticle);
-        if (identifier) {
-          if (this.isDuplicate(identifier)) {
-            this.log.debug?.(`⏭️ ${this.getLogPrefix()}Skipping duplicate article: ${identifier}`);
-            return;
-          }
-          this.trackArticle(identifier);
-        }
-
-        onArticle(transformedArticle);
+        this.queueDelivery(this.transformMessage(data));
       } else if (msgAction === 'admin_kick') {
         const retryAfter = msg.retryAfter || 900000; // 15 minutes default
         const retryAfterSeconds = retryAfter / 1000;
         this.reconnectAt = Date.now() + retryAfter;
+        this.retry = { state: 'backing-off', reason: 'Admin kick' };
         this.log.warn?.(`🚫 ${this.getLogPrefix()}Admin kicked - retry after ${retryAfterSeconds}s`);
+        this.emit('kicked', { retryAfterMs: retryAfter });
         this.webSocket?.close(4003, `Admin kick - retry after ${retryAfter}ms`);
       } else if (msgAction === 'error') {
         const errorData = msg.data || msg.error || 'Unknown error';
         this.log.error?.(`❌ ${this.getLogPrefix()}Server error: ${errorData}`);
+        this.emit('serverError', { message: String(errorData) });
 
         if (String(errorData).toLowerCase().includes('limit')) {
           this.reconnectAt = Date.now() + 60000;
+          this.retry = { state: 'rate-limited', reason: `Server error: ${errorData}` };
           this.webSocket?.close(4001, 'Rate limited');
         } else if (String(errorData).toLowerCase().includes('blocked')) {
           this.reconnectAt = Date.now() + 3600000;
+          this.retry = { state: 'blocked', reason: `Server error: ${errorData}` };
           this.webSocket?.close(4002, 'User blocked');
         }
       } else {
@@ -244,12 +574,15 @@ export abstract class BaseWebSocketClient<TArticle, TRequestPayload> {
         this.log.error?.(`❌ ${this.getLogPrefix()}Close callback error:`, callbackError);
       }
     }
+    this.emit('closed', { code, reason });
 
     if (code === 1008) {
       this.log.warn?.(`🚫 ${this.getLogPrefix()}Connection rejected by server (blocked user)`);
       this._stop = true;
+      this.transition('blocked', 'Connection rejected by server (1008)');
     } else if (code === 1013) {
       this.log.warn?.(`⏰ ${this.getLogPrefix()}Rate limited, waiting before reconnect...`);
+      this.retry ??= { state: 'rate-limited', reason: 'Rate limited (1013)' };
     } else if (code === 4001) {
       this.log.warn?.(`⏰ ${this.getLogPrefix()}Rate limited - custom close code`);
     } else if (code === 4002) {
@@ -257,10 +590,7 @@ export abstract class BaseWebSocketClient<TArticle, TRequestPayload> {
     } else if (code === 4003) {
       this.log.warn?.(`👮 ${this.getLogPrefix()}Admin kick - custom close code`);
     }
-
-    if (!this._stop) {
-      void this.handleReconnect();
-    }
+    this.retry ??= { state: 'backing-off', reason: `Connection closed: ${code}${reason ? ` - ${reason}` : ''}` };
   }
 
   private startPingInterval(): void {
@@ -291,26 +621,115 @@ export abstract class BaseWebSocketClient<TArticle, TRequestPayload> {
       this.log.info?.(
         `🔄 ${this.getLogPrefix()}Proactive rotation after ${(connectionAge / 60000).toFixed(1)} minutes (before 2h AWS limit)`,
       );
-      this.webSocket?.close(4000, 'Proactive rotation');
+      if (this.rotationMode === 'overlap' && this.state === 'admitted') {
+        this.startOverlapRotation();
+      } else {
+        this.webSocket?.close(4000, 'Proactive rotation');
+      }
     }, this.connectionLifetimeMs) as any;
   }
 
+  private startConnectionTimers(): void {
+    this.lastPongTime = Date.now();
+    this.connectionStartTime = Date.now(); // Track connection start
+
+    this.startPingInterval();
+    this.startPongWatchdog();
+    this.startProactiveRotation();
+  }
+
+  // The replacement always takes over, so the connection limit cannot reject it. The old connection's
+  // `preempted` is expected and held until the replacement's lease confirms it was ours.
+  // The replacement must be admitted within the pong timeout.
+  private startOverlapRotation(): void {
+    this.log.info?.(`🔄 ${this.getLogPrefix()}Opening replacement connection before closing the current one`);
+    const timeout = setTimeout(() => {
+      this.log.warn?.(`⚠️ ${this.getLogPrefix()}Replacement connection not admitted in time`);
+      this.fallBackToReconnect();
+    }, this.pongTimeoutMs);
+    this.rotation = { socket: this.openSocket(true), clientNonce: this.generateUuid(), timeout };
+  }
+
+  // The replacement was admitted: it becomes the current connection and the old one is closed
+  private completeRotation(): void {
+    if (!this.rotation) return;
+    const { socket, clientNonce, timeout } = this.rotation;
+    clearTimeout(timeout);
+    this.rotation = undefined;
+
+    const previous = this.webSocket;
+    this.webSocket = socket;
+    this.clientNonce = clientNonce;
+    this.clearTimers();
+    this.startConnectionTimers();
+    if (previous && previous !== socket) {
+      previous.close(4000, 'Proactive rotation');
+    }
+  }
+
+  private abandonRotation(): void {
+    if (!this.rotation) return;
+    const { socket, timeout } = this.rotation;
+    clearTimeout(timeout);
+    this.rotation = undefined;
+    if (socket !== this.webSocket) {
+      socket.close(1000, 'Rotation abandoned');
+    }
+  }
+
+  // Overlap rotation failed: rotate the classic way. A held preemption is not proven foreign
+  // until the replacement's lease is known, so it is most likely our own takeover and is not acted on.
+  private fallBackToReconnect(): void {
+    this.log.warn?.(`⚠️ ${this.getLogPrefix()}Overlap rotation failed - reconnecting instead`);
+    this.abandonRotation();
+    this.webSocket?.close(4000, 'Proactive rotation');
+  }
+
+  // Another connection took over the lease: stop rather than fight over it
+  private handlePreemption({ reason, newLeaseId }: PreemptedEvent): void {
+    this.log.warn?.(`🔄 ${this.getLogPrefix()}Connection preempted: ${reason} (new lease: ${newLeaseId ?? ''})`);
+    this._stop = true;
+    this.abandonRotation();
+    this.transition('preempted', `Preempted: ${reason}`);
+    this.emit('preempted', { reason, ...(newLeaseId && { newLeaseId }) });
+    this.webSocket?.close(1000, 'Preempted by server');
+  }
+
   private async handleReconnect(): Promise<void> {
     const now = Date.now();
+    const { state, reason } = this.retry ?? { state: 'backing-off', reason: 'Connection lost' };
+    this.reconnectAttempts++;
 
     if (this.reconnectAt && now < this.reconnectAt) {
       const waitTime = (this.reconnectAt - now) / 1000;
       this.log.info?.(`⏰ ${this.getLogPrefix()}Waiting ${waitTime.toFixed(1)}s until reconnectAt before attempting reconnect`);
+      this.transition(state, reason, this.reconnectAt);
+      this.emit('reconnecting', { delayMs: this.reconnectAt - now, attempt: this.reconnectAttempts });
       await this.sleep(this.reconnectAt - now);
     } else {
       this.log.info?.(`🔁 ${this.getLogPrefix()}Reconnecting in ${(this.currentReconnectDelayMs / 1000).toFixed(1)}s...`);
+      this.transition(state, reason, now + this.currentReconnectDelayMs);
+      this.emit('reconnecting', { delayMs: this.currentReconnectDelayMs, attempt: this.reconnectAttempts });
       await this.sleep(this.currentReconnectDelayMs);
       this.currentReconnectDelayMs = Math.min(this.currentReconnectDelayMs * 2, this.maxReconnectDelayMs);
     }
   }
 
+  // Moves to `to` if the transition table allows it; other changes are ignored so late socket events can't undo a stop
+  private transition(to: WebSocketState, reason: string, retryAt?: number): void {
+    const from = this.state;
+    if (!STATE_TRANSITIONS[from].includes(to)) {
+      this.log.debug?.(`${this.getLogPrefix()}Ignoring state change ${from} → ${to} (${reason})`);
+      return;
+    }
+    this.state = to;
+    this.log.debug?.(`${this.getLogPrefix()}State ${from} → ${to} (${reason})`);
+    this.emit('stateChange', { from, to, reason, ...(retryAt !== undefined && { retryAt }) });
+  }
+
   private resetBackoff(): void {
     this.currentReconnectDelayMs = this.baseReconnectDelayMs;
+    this.reconnectAttempts = 0;
   }
 
   private clearTimers(): void {
@@ -328,8 +747,18 @@ export abstract class BaseWebSocketClient<TArticle, TRequestPayload> {
     }
   }
 
+  // Reconnect waits are cut short by stop()
   private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    if (this._stop) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      this.cancelSleep = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
   }
 
   private generateUuid(): string {
@@ -342,7 +771,10 @@ export abstract class BaseWebSocketClient<TArticle, TRequestPayload> {
 
   public stop(): void {
     this._stop = true;
+    this.transition('stopped', 'stop() called');
+    this.abandonRotation();
     this.clearTimers();
+    this.cancelSleep?.();
     this.webSocket?.close();
   }
 
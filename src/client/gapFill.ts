@@ -0,0 +1,100 @@
+import { ArticleService } from '../services/articleService';
+import { Article, GetArticlesParams, GetArticlesWebSocketParams } from '../types';
+
+export interface GapFillOptions {
+  /** Results per REST request (default: 100) */
+  pageSize?: number;
+  /** Stop after this many pages per gap; the report is marked `truncated` (default: 10) */
+  maxPages?: number;
+}
+
+/**
+ * Result of filling one reconnect gap
+ */
+export interface GapFillReport {
+  /** `createdAt` of the last article delivered before the gap */
+  from: Date;
+  /** When the connection was admitted again, by the server clock if reported */
+  to: Date;
+  /** Articles replayed into the handler, after deduplication */
+  recovered: number;
+  /** Whether `maxPages` was reached before the start of the gap */
+  truncated: boolean;
+  /** If `truncated`, the oldest part of the gap, whose articles were not replayed */
+  unrecovered?: { from: Date; to: Date };
+}
+
+/**
+ * A reconnect gap that could not be filled. The gap is kept and filled again after the next admission.
+ */
+export interface GapFillFailure {
+  /** `createdAt` of the last article delivered before the gap */
+  from: Date;
+  /** When the connection was admitted again, by the server clock if reported */
+  to: Date;
+  error: Error;
+}
+
+/**
+ * Maps streaming subscription parameters to the equivalent REST search parameters
+ */
+export function toSearchParams(params: GetArticlesWebSocketParams): GetArticlesParams {
+  return {
+    query: params.query,
+    sources: params.sources,
+    excludeSources: params.excludeSources,
+    optInSources: params.optInSources,
+    language: params.language,
+    tickers: params.tickers,
+    includeEntities: params.includeEntities,
+    excludeEmptyContent: params.excludeEmptyContent,
+    includeContent: params.includeContent ?? params.extended,
+    countries: params.countries,
+    categories: params.categories,
+  };
+}
+
+/**
+ * Fetches the articles created after `from` and up to `to`, oldest first.
+ * The search is bounded to the gap, and pages are walked newest first by `createdAt`
+ * until an article at or before `from` is reached. If `maxPages` runs out first,
+ * `unrecovered` is the oldest part of the gap that was not fetched.
+ */
+export async function fetchMissedArticles(
+  articles: ArticleService,
+  params: GetArticlesWebSocketParams,
+  from: Date,
+  to: Date,
+  options: GapFillOptions = {},
+): Promise<{ articles: Article[]; truncated: boolean; unrecovered?: { from: Date; to: Date } }> {
+  const { pageSize = 100, maxPages = 10 } = options;
+  const missed: Article[] = [];
+
+  for (let page = 1; page <= maxPages; page++) {
+    const response = await articles.fetchArticles({
+      ...toSearchParams(params),
+      from: from.toISOString(),
+      to: to.toISOString(),
+      orderBy: 'createdAt',
+      order: 'DESC',
+      pageSize,
+      page,
+    });
+
+    for (const article of response.articles) {
+      if (!article.createdAt || article.createdAt > to) {
+        continue;
+      }
+      if (article.createdAt <= from) {
+        return { articles: missed.reverse(), truncated: false };
+      }
+      missed.push(article);
+    }
+
+    if (response.articles.length < pageSize) {
+      return { articles: missed.reverse(), truncated: false };
+    }
+  }
+  const oldestFetched = missed.length > 0 ? missed[missed.length - 1].createdAt! : to;
+  return { articles: missed.reverse(), truncated: true, unrecovered: { from, to: oldestFetched } };
+}
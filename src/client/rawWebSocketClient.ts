@@ -1,10 +1,12 @@
 import { RawArticle, GetRawArticlesWebSocketParams, ApiClientConfig } from '../types';
-import { transformRawArticle } from '../utils';
+import { resolveQuery } from '../query';
+import { assertValidParams, validateRawWebSocketParams } from '../validation';
+import { QuotaTracker } from '../quota';
 import { BaseWebSocketClient, BaseWebSocketClientOptions } from './baseWebSocketClient';
 
 export class RawWebSocketClient extends BaseWebSocketClient<RawArticle, GetRawArticlesWebSocketParams> {
-  constructor(config: ApiClientConfig, options: BaseWebSocketClientOptions = {}) {
-    super(config, options);
+  constructor(config: ApiClientConfig, options: BaseWebSocketClientOptions = {}, quota?: QuotaTracker) {
+    super(config, options, quota);
   }
 
   protected getWebSocketUrl(): string {
@@ -15,7 +17,20 @@ export class RawWebSocketClient extends BaseWebSocketClient<RawArticle, GetRawAr
     return '[Raw] ';
   }
 
+  // Query builders are checked against the fields the raw stream supports
+  protected preparePayload(requestPayload: GetRawArticlesWebSocketParams): GetRawArticlesWebSocketParams {
+    const payload = { ...requestPayload, query: resolveQuery(requestPayload.query, 'raw') };
+    if (this.config.validateParams !== false) {
+      assertValidParams(validateRawWebSocketParams(payload));
+    }
+    return payload;
+  }
+
   protected transformMessage(data: any): RawArticle {
-    return transformRawArticle(data);
+    return this.payloads.rawArticle(data);
+  }
+
+  protected getDedupNamespace(): string {
+    return 'raw';
   }
 }
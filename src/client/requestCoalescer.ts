@@ -0,0 +1,76 @@
+import { AbortError } from '../errors';
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Shares one in-flight request between concurrent callers with the same key.
+ *
+ * Each caller can cancel its own wait with an AbortSignal; the shared request
+ * is only aborted once every caller has given up. Nothing is kept after the
+ * request settles.
+ */
+export class RequestCoalescer {
+  private readonly inFlight = new Map<string, SharedRequest>();
+
+  /** Number of distinct requests currently in flight */
+  get size(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Joins the in-flight request for `key`, or starts it with `execute`
+   *
+   * @param key - Identity of the request
+   * @param execute - Sends the request; receives a signal that fires when every caller aborted
+   * @param signal - Cancels this caller's wait with an AbortError
+   */
+  run<T>(key: string, execute: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError());
+    }
+
+    let shared = this.inFlight.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const entry: SharedRequest = { controller, waiters: 0, promise: Promise.resolve() };
+      entry.promise = execute(controller.signal).finally(() => this.release(key, entry));
+      this.inFlight.set(key, entry);
+      shared = entry;
+    }
+    shared.waiters++;
+
+    const request = shared;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        request.waiters--;
+        if (request.waiters === 0) {
+          request.controller.abort();
+          this.release(key, request);
+        }
+        reject(new AbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      request.promise.then(
+        (value) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value as T);
+        },
+        (error: unknown) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      );
+    });
+  }
+
+  private release(key: string, request: SharedRequest): void {
+    if (this.inFlight.get(key) === request) {
+      this.inFlight.delete(key);
+    }
+  }
+}
@@ -1,6 +1,12 @@
 import { Article, GetArticlesWebSocketParams, ApiClientConfig } from '../types';
-import { transformArticle } from '../utils';
+import { resolveQuery } from '../query';
+import { assertValidParams, validateWebSocketParams } from '../validation';
+import { QuotaTracker } from '../quota';
+import { ArticleService } from '../services/articleService';
+import { ApiClient } from './apiClient';
 import { BaseWebSocketClient, BaseWebSocketClientOptions } from './baseWebSocketClient';
+import { AdmittedEvent } from './webSocketEvents';
+import { GapFillOptions, fetchMissedArticles } from './gapFill';
 
 export type WebSocketResponse<T> = {
   action: string;
@@ -8,8 +14,29 @@ export type WebSocketResponse<T> = {
 };
 
 export class WebSocketClient extends BaseWebSocketClient<Article, GetArticlesWebSocketParams> {
-  constructor(config: ApiClientConfig, options: BaseWebSocketClientOptions = {}) {
-    super(config, options);
+  private readonly gapFill?: GapFillOptions;
+  private readonly articles?: ArticleService;
+  private subscription?: GetArticlesWebSocketParams;
+  private lastCreatedAt?: Date; // createdAt of the newest delivered article, for gap fill
+  private gap?: { from: Date; to: Date }; // Kept until it is filled
+  private serverClockOffsetMs = 0; // serverNow minus the local time at the last admission
+  private filling = false;
+
+  /**
+   * @param articles - Service used to fill reconnect gaps; one is created from `config` if omitted
+   */
+  constructor(
+    config: ApiClientConfig,
+    options: BaseWebSocketClientOptions = {},
+    quota?: QuotaTracker,
+    articles?: ArticleService,
+  ) {
+    super(config, options, quota);
+    if (options.gapFill) {
+      this.gapFill = options.gapFill === true ? {} : options.gapFill;
+      this.articles =
+        articles ?? new ArticleService(new ApiClient(config), config.validateParams ?? true, this.payloads);
+    }
   }
 
   protected getWebSocketUrl(): string {
@@ -20,12 +47,102 @@ export class WebSocketClient extends BaseWebSocketClient<Article, GetArticlesWeb
     return '';
   }
 
+  protected preparePayload(requestPayload: GetArticlesWebSocketParams): GetArticlesWebSocketParams {
+    const payload = { ...requestPayload, query: resolveQuery(requestPayload.query, 'websocket') };
+    if (this.config.validateParams !== false) {
+      assertValidParams(validateWebSocketParams(payload));
+    }
+    // A new subscription starts without a gap to fill
+    this.subscription = requestPayload;
+    this.lastCreatedAt = undefined;
+    this.gap = undefined;
+    return payload;
+  }
+
   protected transformMessage(data: any): Article {
-    return transformArticle(data);
+    return this.payloads.article(data);
+  }
+
+  // Articles without createdAt count as created when they were received, by the server clock
+  protected async deliverArticle(article: Article): Promise<boolean> {
+    const delivered = await super.deliverArticle(article);
+    if (delivered && this.gapFill) {
+      const createdAt = article.createdAt ?? this.serverTime();
+      if (!this.lastCreatedAt || createdAt > this.lastCreatedAt) {
+        this.lastCreatedAt = createdAt;
+      }
+    }
+    return delivered;
+  }
+
+  // An admission after articles were delivered is a reconnect: replay what was missed in between.
+  // A gap that could not be filled yet is kept, and a reconnect during a fill extends it.
+  protected afterAdmission({ serverNow }: AdmittedEvent): void {
+    if (serverNow !== undefined) {
+      this.serverClockOffsetMs = serverNow - Date.now();
+    }
+    const from = this.gap?.from ?? this.lastCreatedAt;
+    if (!this.articles || !this.subscription || !from) {
+      return;
+    }
+    this.gap = { from, to: new Date(serverNow ?? this.serverTime().getTime()) };
+    if (!this.filling) {
+      void this.fillGaps(this.articles, this.subscription);
+    }
+  }
+
+  // The local time corrected by the server clock reported on the last admission
+  private serverTime(): Date {
+    return new Date(Date.now() + this.serverClockOffsetMs);
   }
 
-  // Enable duplicate detection using article link
-  protected getArticleIdentifier(article: Article): string | null {
-    return article.link;
+  private async fillGaps(articles: ArticleService, params: GetArticlesWebSocketParams): Promise<void> {
+    this.filling = true;
+    try {
+      while (this.gap && params === this.subscription && this.getState() !== 'stopped') {
+        const gap = this.gap;
+        if (!(await this.fillGap(articles, params, gap.from, gap.to))) {
+          return;
+        }
+        if (this.gap === gap) {
+          this.gap = undefined;
+        }
+      }
+    } finally {
+      this.filling = false;
+    }
+  }
+
+  /**
+   * @returns Whether the gap was filled
+   */
+  private async fillGap(
+    articles: ArticleService,
+    params: GetArticlesWebSocketParams,
+    from: Date,
+    to: Date,
+  ): Promise<boolean> {
+    try {
+      const missed = await fetchMissedArticles(articles, params, from, to, this.gapFill);
+      if (params !== this.subscription || this.getState() === 'stopped') {
+        return false;
+      }
+      const recovered = await this.queueDeliveries(missed.articles);
+
+      this.log.info?.(`🧩 Recovered ${recovered} missed articles from ${from.toISOString()} to ${to.toISOString()}`);
+      const { truncated, unrecovered } = missed;
+      if (unrecovered) {
+        this.log.warn?.(
+          `⚠️ Gap fill reached maxPages; articles from ${unrecovered.from.toISOString()} ` +
+            `to ${unrecovered.to.toISOString()} were not replayed`,
+        );
+      }
+      this.emit('gapFilled', { from, to, recovered, truncated, ...(unrecovered && { unrecovered }) });
+      return true;
+    } catch (error) {
+      this.log.warn?.(`⚠️ Gap fill from ${from.toISOString()} failed, retrying after the next admission:`, error);
+      this.emit('gapFillFailed', { from, to, error: error instanceof Error ? error : new Error(String(error)) });
+      return false;
+    }
   }
 }
@@ -0,0 +1,72 @@
+import { GapFillFailure, GapFillReport } from './gapFill';
+import { WebSocketStateChange } from './webSocketState';
+
+export interface AdmittedEvent {
+  leaseId: string;
+  /** Server clock at admission (epoch ms), if reported */
+  serverNow?: number;
+}
+
+export interface PreemptedEvent {
+  reason: string;
+  /** Lease of the connection that took over, if reported */
+  newLeaseId?: string;
+}
+
+export interface KickedEvent {
+  /** Time until the server accepts a new connection, in ms */
+  retryAfterMs: number;
+}
+
+export interface ServerErrorEvent {
+  message: string;
+}
+
+export interface ReconnectingEvent {
+  /** Time until the next connection attempt, in ms */
+  delayMs: number;
+  /** Reconnection attempts since the last successful connection */
+  attempt: number;
+}
+
+export interface RotatedEvent {
+  /** Lease of the replacement connection */
+  leaseId: string;
+  /** Lease of the connection that was closed */
+  previousLeaseId?: string;
+}
+
+export interface ClosedEvent {
+  code: number;
+  reason: string;
+}
+
+/**
+ * Events emitted by the WebSocket clients, with their listener signatures
+ */
+export interface WebSocketClientEvents<TArticle> {
+  /** An article was received (duplicates are skipped) */
+  article: (article: TArticle) => void;
+  /** The socket opened and the subscription was sent */
+  connected: () => void;
+  /** The server accepted the subscription */
+  admitted: (event: AdmittedEvent) => void;
+  /** Another connection took over the lease; the client stops */
+  preempted: (event: PreemptedEvent) => void;
+  /** An admin closed the connection; the client waits `retryAfterMs` before reconnecting */
+  kicked: (event: KickedEvent) => void;
+  /** The server reported an error, e.g. a connection limit */
+  serverError: (event: ServerErrorEvent) => void;
+  /** The client is about to wait before the next connection attempt */
+  reconnecting: (event: ReconnectingEvent) => void;
+  /** An overlap rotation completed: the replacement was admitted and the old connection closed */
+  rotated: (event: RotatedEvent) => void;
+  /** The socket closed */
+  closed: (event: ClosedEvent) => void;
+  /** Articles missed during a reconnect were replayed (`WebSocketClient` with `gapFill` only) */
+  gapFilled: (report: GapFillReport) => void;
+  /** Missed articles could not be fetched; the gap is filled again after the next admission */
+  gapFillFailed: (failure: GapFillFailure) => void;
+  /** The connection state changed; see `getState()` */
+  stateChange: (change: WebSocketStateChange) => void;
+}
@@ -0,0 +1,55 @@
+/**
+ * Connection states of the WebSocket clients
+ *
+ * - `idle`: created, `connect` not called yet
+ * - `connecting`: opening a socket
+ * - `open`: socket open, subscription sent, waiting for admission
+ * - `admitted`: the server accepted the subscription; articles flow
+ * - `backing-off`: waiting before reconnecting after a disconnect or error
+ * - `rate-limited`: waiting before reconnecting because the server reported a limit
+ * - `blocked`: the server blocked the user; waits before retrying, or stays here if the block is permanent
+ * - `preempted`: another connection took over the lease; the client stopped
+ * - `stopped`: `stop()` was called
+ */
+export type WebSocketState =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'admitted'
+  | 'backing-off'
+  | 'rate-limited'
+  | 'blocked'
+  | 'preempted'
+  | 'stopped';
+
+export interface WebSocketStateChange {
+  from: WebSocketState;
+  to: WebSocketState;
+  /** Why the state changed, e.g. `Connection closed: 1006` */
+  reason: string;
+  /** When the next connection attempt is made (epoch ms), for the waiting states */
+  retryAt?: number;
+}
+
+export const STATE_TRANSITIONS: Readonly<Record<WebSocketState, readonly WebSocketState[]>> = {
+  idle: ['connecting', 'stopped'],
+  connecting: ['open', 'backing-off', 'rate-limited', 'blocked', 'stopped'],
+  open: ['admitted', 'backing-off', 'rate-limited', 'blocked', 'preempted', 'stopped'],
+  admitted: ['backing-off', 'rate-limited', 'blocked', 'preempted', 'stopped'],
+  'backing-off': ['connecting', 'blocked', 'stopped'],
+  'rate-limited': ['connecting', 'blocked', 'stopped'],
+  blocked: ['connecting', 'stopped'],
+  preempted: ['connecting', 'stopped'],
+  stopped: ['connecting'],
+};
+
+/**
+ * Thrown when a WebSocket client is asked to do something its current state does not allow,
+ * e.g. `connect` while already connected
+ */
+export class WebSocketStateError extends Error {
+  constructor(public readonly state: WebSocketState) {
+    super(`Cannot connect while the client is ${state}; call stop() first`);
+    this.name = 'WebSocketStateError';
+  }
+}
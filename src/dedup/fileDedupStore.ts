@@ -0,0 +1,95 @@
+import { appendFile, readFile, rename, writeFile } from 'fs/promises';
+import { MemoryDedupStore } from './memoryDedupStore';
+import { DedupStoreOptions } from './types';
+
+/**
+ * Dedup store that survives restarts by appending every new identity to a file.
+ *
+ * The file holds one `[expiresAt, id]` JSON array per line. It is read on first use,
+ * skipping expired and malformed lines, and rewritten with only the remembered
+ * identities once it grows to twice `maxEntries` lines. Use one file per process.
+ *
+ * @example
+ * ```typescript
+ * const api = new FinlightApi({ apiKey }, { dedup: { store: new FileDedupStore('./seen-articles.jsonl') } });
+ * ```
+ */
+export class FileDedupStore extends MemoryDedupStore {
+  private loaded?: Promise<void>;
+  private queue: Promise<unknown> = Promise.resolve();
+  private lines = 0;
+
+  constructor(
+    private readonly path: string,
+    options: DedupStoreOptions = {},
+  ) {
+    super(options);
+  }
+
+  add(id: string): Promise<boolean> {
+    return this.serialize(async () => {
+      await (this.loaded ??= this.load());
+      const now = Date.now();
+      if (!this.claim(id, now)) {
+        return false;
+      }
+      await appendFile(this.path, JSON.stringify([now + this.ttlMs, id]) + '\n');
+      if (++this.lines >= this.maxEntries * 2) {
+        await this.compact();
+      }
+      return true;
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.serialize(async () => {
+      this.seen.clear();
+      this.loaded = Promise.resolve();
+      this.lines = 0;
+      await writeFile(this.path, '');
+    });
+  }
+
+  // File operations run one at a time so appends and compaction never interleave
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<void> {
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const now = Date.now();
+    for (const line of content.split('\n')) {
+      if (!line) continue;
+      this.lines++;
+      try {
+        const [expiresAt, id] = JSON.parse(line);
+        if (typeof expiresAt === 'number' && typeof id === 'string' && expiresAt > now) {
+          this.remember(id, expiresAt);
+        }
+      } catch {
+        // A partially written last line is skipped
+      }
+    }
+  }
+
+  private async compact(): Promise<void> {
+    const temporaryPath = `${this.path}.tmp`;
+    const now = Date.now();
+    const entries = [...this.seen].filter(([, expiresAt]) => expiresAt > now);
+    const content = entries.map(([id, expiresAt]) => JSON.stringify([expiresAt, id]) + '\n').join('');
+    await writeFile(temporaryPath, content);
+    await rename(temporaryPath, this.path);
+    this.lines = entries.length;
+  }
+}
@@ -0,0 +1,57 @@
+import { createHash } from 'crypto';
+import { DedupArticle, DedupIdentity } from './types';
+
+const TRACKING_PARAM = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref|ref_src|cmpid|ncid|spm)$/i;
+
+/**
+ * Normalizes an article link for comparison: drops tracking parameters (`utm_*`, `fbclid`, ...)
+ * and the fragment, sorts the remaining parameters and removes a trailing slash.
+ * Links that are not absolute URLs are only trimmed.
+ *
+ * @example
+ * normalizeLink('https://example.com/news/1/?utm_source=x&b=2&a=1#top'); // 'https://example.com/news/1?a=1&b=2'
+ */
+export function normalizeLink(link: string): string {
+  let url: URL;
+  try {
+    url = new URL(link.trim());
+  } catch {
+    return link.trim();
+  }
+
+  url.hash = '';
+  for (const key of [...url.searchParams.keys()]) {
+    if (TRACKING_PARAM.test(key)) {
+      url.searchParams.delete(key);
+    }
+  }
+  url.searchParams.sort();
+  if (url.pathname.length > 1 && url.pathname.endsWith('/')) {
+    url.pathname = url.pathname.slice(0, -1);
+  }
+  return url.toString();
+}
+
+/**
+ * Returns the identity of an article for duplicate suppression, or `null` if it should not be suppressed
+ */
+export function getArticleIdentity(article: DedupArticle, identity: DedupIdentity = 'link'): string | null {
+  if (typeof identity === 'function') {
+    return identity(article);
+  }
+  switch (identity) {
+    case 'link':
+      return article.link || null;
+    case 'normalized-link':
+      return article.link ? normalizeLink(article.link) : null;
+    case 'title-source': {
+      const title = article.title?.trim().toLowerCase().replace(/\s+/g, ' ');
+      if (!title) {
+        return null;
+      }
+      return createHash('sha256')
+        .update(`${(article.source ?? '').toLowerCase()}\n${title}`)
+        .digest('hex');
+    }
+  }
+}
@@ -0,0 +1,4 @@
+export { DedupArticle, DedupIdentity, DedupStore, DedupStoreOptions, DedupOptions } from './types';
+export { MemoryDedupStore } from './memoryDedupStore';
+export { FileDedupStore } from './fileDedupStore';
+export { normalizeLink, getArticleIdentity } from './identity';
@@ -0,0 +1,53 @@
+import { DedupStore, DedupStoreOptions } from './types';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * In-memory dedup store that drops the least recently seen identity when full
+ * and forgets identities after `ttlMs`.
+ */
+export class MemoryDedupStore implements DedupStore {
+  /** Identity → expiry in epoch ms, least recently seen first */
+  protected readonly seen = new Map<string, number>();
+  protected readonly maxEntries: number;
+  protected readonly ttlMs: number;
+
+  constructor(options: DedupStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  get size(): number {
+    return this.seen.size;
+  }
+
+  add(id: string): Promise<boolean> {
+    return Promise.resolve(this.claim(id, Date.now()));
+  }
+
+  clear(): Promise<void> {
+    this.seen.clear();
+    return Promise.resolve();
+  }
+
+  // Records `id` unless it is remembered and unexpired; returns whether it was new
+  protected claim(id: string, now: number): boolean {
+    const expiresAt = this.seen.get(id);
+    if (expiresAt !== undefined && expiresAt > now) {
+      // Re-insert to mark the identity as most recently seen
+      this.remember(id, expiresAt);
+      return false;
+    }
+    this.remember(id, now + this.ttlMs);
+    return true;
+  }
+
+  protected remember(id: string, expiresAt: number): void {
+    this.seen.delete(id);
+    this.seen.set(id, expiresAt);
+    while (this.seen.size > this.maxEntries) {
+      this.seen.delete(this.seen.keys().next().value!);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Fields used to identify an article for duplicate suppression
+ */
+export interface DedupArticle {
+  link: string;
+  title: string;
+  source: string;
+}
+
+/**
+ * How two articles are recognized as the same
+ *
+ * - `link`: the article link as received
+ * - `normalized-link`: the link without tracking parameters, fragment and trailing slash
+ * - `title-source`: a hash of the normalized title and source, for articles re-published under a new link
+ * - a function returning the identity, or `null` to never suppress the article
+ */
+export type DedupIdentity = 'link' | 'normalized-link' | 'title-source' | ((article: DedupArticle) => string | null);
+
+/**
+ * Remembers which articles were already delivered.
+ *
+ * Implement this to share duplicate suppression across processes, e.g. with Redis `SET NX`.
+ * Stores may forget identities at any time, which lets a duplicate through.
+ */
+export interface DedupStore {
+  /**
+   * Records an identity
+   *
+   * @returns `true` if it was not seen before (the article should be delivered), `false` for a duplicate
+   */
+  add(id: string): Promise<boolean>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Limits of the built-in stores
+ */
+export interface DedupStoreOptions {
+  /** Identities kept before the least recently seen is dropped (default: 1000) */
+  maxEntries?: number;
+  /** How long an identity is remembered, in ms (default: 24 hours) */
+  ttlMs?: number;
+}
+
+/**
+ * Duplicate suppression for the WebSocket clients
+ */
+export interface DedupOptions extends DedupStoreOptions {
+  /** Storage backend (default: in-memory LRU store with `maxEntries` and `ttlMs`) */
+  store?: DedupStore;
+  /** How articles are identified (default: `link`) */
+  identity?: DedupIdentity;
+}
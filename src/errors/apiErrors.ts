@@ -0,0 +1,216 @@
+/**
+ * Details attached to every error raised by the REST client
+ */
+export interface ApiErrorContext {
+  /** HTTP status code, if the server responded */
+  status?: number;
+  /** HTTP method of the failed request */
+  method?: string;
+  /** Endpoint path of the failed request, e.g. `/v2/articles` */
+  endpoint?: string;
+  /** Request id reported by the server, useful when contacting support */
+  requestId?: string;
+  /** Parsed error body returned by the server */
+  body?: unknown;
+  /** Delay requested by the server via `Retry-After`, in milliseconds */
+  retryAfterMs?: number;
+  /** Underlying error that caused this one */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors thrown by the REST services.
+ *
+ * Catch this to handle any API failure, or one of the subclasses
+ * to react to a specific kind of failure.
+ */
+export class FinlightApiError extends Error {
+  readonly status?: number;
+  readonly method?: string;
+  readonly endpoint?: string;
+  readonly requestId?: string;
+  readonly body?: unknown;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, context: ApiErrorContext = {}) {
+    super(message);
+    this.name = 'FinlightApiError';
+    this.status = context.status;
+    this.method = context.method;
+    this.endpoint = context.endpoint;
+    this.requestId = context.requestId;
+    this.body = context.body;
+    this.retryAfterMs = context.retryAfterMs;
+    this.cause = context.cause;
+  }
+}
+
+/**
+ * Thrown when the API key is missing, invalid or lacks access (401/403).
+ */
+export class AuthenticationError extends FinlightApiError {
+  constructor(message: string, context: ApiErrorContext = {}) {
+    super(message, context);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Thrown when the server rejects a request because of rate limits (429).
+ */
+export class RateLimitError extends FinlightApiError {
+  constructor(message: string, context: ApiErrorContext = {}) {
+    super(message, context);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Thrown when the requested resource does not exist (404),
+ * e.g. an unknown link passed to `fetchArticleByLink`.
+ */
+export class NotFoundError extends FinlightApiError {
+  constructor(message: string, context: ApiErrorContext = {}) {
+    super(message, context);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Thrown when the server rejects the request parameters (400/422).
+ */
+export class ValidationError extends FinlightApiError {
+  constructor(message: string, context: ApiErrorContext = {}) {
+    super(message, context);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * A single invalid request parameter found by local validation
+ */
+export interface ParamIssue {
+  /** Name of the parameter, e.g. `pageSize` or `countries[1]` */
+  field: string;
+  message: string;
+}
+
+/**
+ * Thrown before a request is sent when its parameters are invalid.
+ * Lists every problem found, not just the first one.
+ */
+export class ParamsValidationError extends ValidationError {
+  readonly issues: ParamIssue[];
+
+  constructor(issues: ParamIssue[], context: ApiErrorContext = {}) {
+    super(`Invalid parameters:\n${issues.map((issue) => `  - ${issue.field}: ${issue.message}`).join('\n')}`, context);
+    this.name = 'ParamsValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown when the server fails to process the request (5xx).
+ * A 503 may carry `retryAfterMs` when the server announces maintenance.
+ */
+export class ServerError extends FinlightApiError {
+  constructor(message: string, context: ApiErrorContext = {}) {
+    super(message, context);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Thrown when no response was received within the configured timeout.
+ */
+export class TimeoutError extends FinlightApiError {
+  constructor(message: string, context: ApiErrorContext = {}) {
+    super(message, context);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Thrown when the request could not reach the server
+ * (DNS failure, connection refused or reset, ...).
+ */
+export class NetworkError extends FinlightApiError {
+  /** Low level error code, e.g. `ECONNRESET` */
+  readonly code?: string;
+
+  constructor(message: string, context: ApiErrorContext & { code?: string } = {}) {
+    super(message, context);
+    this.name = 'NetworkError';
+    this.code = context.code;
+  }
+}
+
+/**
+ * Thrown when a request or iteration was cancelled through an AbortSignal.
+ * Aborted requests are never retried.
+ */
+export class AbortError extends FinlightApiError {
+  constructor(message = 'The operation was aborted', context: ApiErrorContext = {}) {
+    super(message, context);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Thrown without sending the request while the circuit breaker is open.
+ * `retryAfterMs` tells when trial requests are allowed again. Never retried.
+ */
+export class CircuitOpenError extends FinlightApiError {
+  /** Circuit that rejected the request: the endpoint path, or `'*'` for the client-wide circuit */
+  readonly circuit: string;
+
+  constructor(message: string, context: ApiErrorContext & { circuit: string }) {
+    super(message, context);
+    this.name = 'CircuitOpenError';
+    this.circuit = context.circuit;
+  }
+}
+
+/**
+ * Creates the error matching an HTTP error status
+ *
+ * @param status - HTTP status code returned by the server
+ * @param context - Request details to attach to the error
+ */
+export function createHttpError(status: number, context: ApiErrorContext): FinlightApiError {
+  const serverMessage = extractServerMessage(context.body);
+  const target = context.method && context.endpoint ? ` (${context.method} ${context.endpoint})` : '';
+  const message = `Request failed with status ${status}${serverMessage ? `: ${serverMessage}` : ''}${target}`;
+  const fullContext = { ...context, status };
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, fullContext);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, fullContext);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, fullContext);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, fullContext);
+  }
+  if (status >= 500) {
+    return new ServerError(message, fullContext);
+  }
+
+  return new FinlightApiError(message, fullContext);
+}
+
+function extractServerMessage(body: unknown): string | undefined {
+  if (typeof body === 'string') {
+    return body || undefined;
+  }
+  if (body && typeof body === 'object') {
+    const { message, error } = body as Record<string, unknown>;
+    if (typeof message === 'string') return message;
+    if (typeof error === 'string') return error;
+  }
+  return undefined;
+}
@@ -0,0 +1,16 @@
+export {
+  ApiErrorContext,
+  FinlightApiError,
+  AuthenticationError,
+  RateLimitError,
+  NotFoundError,
+  ValidationError,
+  ParamsValidationError,
+  ParamIssue,
+  ServerError,
+  TimeoutError,
+  NetworkError,
+  AbortError,
+  CircuitOpenError,
+  createHttpError,
+} from './apiErrors';
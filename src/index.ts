@@ -6,14 +6,153 @@ import { ArticleService } from './services/articleService';
 import { SourceService } from './services/sourceService';
 import { WebhookService } from './services/webhookService';
 import { ApiClientConfig, defaultApiConfig } from './types/config';
+import { RateLimiter } from './rateLimit';
+import { CircuitBreaker } from './circuitBreaker';
+import { QuotaSnapshot } from './quota';
+import { ResponseCache } from './cache';
+import { Middleware } from './middleware';
+import { PayloadValidator } from './schema';
+import { createLogger } from './logger';
+export { Transport, TransportRequest, TransportResponse, AxiosTransport, FetchTransport } from './transport';
+export { Middleware, MiddlewareNext } from './middleware';
 
-export { ApiClientConfig } from './types/config';
+export {
+  ApiClientConfig,
+  RequestOptions,
+  MetadataRequestOptions,
+  PaginationOptions,
+  BackfillOptions,
+  FetchArticlesByLinksOptions,
+} from './types/config';
 export type * from './types/types';
 export { WebSocketResponse } from './client/webSocketClient';
 export { BaseWebSocketClientOptions as WebSocketClientOptions } from './client/baseWebSocketClient';
+export {
+  WebSocketClientEvents,
+  AdmittedEvent,
+  PreemptedEvent,
+  KickedEvent,
+  ServerErrorEvent,
+  ReconnectingEvent,
+  RotatedEvent,
+  ClosedEvent,
+} from './client/webSocketEvents';
+export { WebSocketState, WebSocketStateChange, WebSocketStateError } from './client/webSocketState';
+export { GapFillFailure, GapFillOptions, GapFillReport } from './client/gapFill';
 export { WebhookService, WebhookVerificationError } from './services/webhookService';
-export { transformArticle, transformArticles, transformRawArticle, transformRawArticles } from './utils';
+export {
+  ApiErrorContext,
+  FinlightApiError,
+  AuthenticationError,
+  RateLimitError,
+  NotFoundError,
+  ValidationError,
+  ParamsValidationError,
+  ParamIssue,
+  ServerError,
+  TimeoutError,
+  NetworkError,
+  AbortError,
+  CircuitOpenError,
+} from './errors';
+export {
+  transformArticle,
+  transformArticles,
+  transformRawArticle,
+  transformRawArticles,
+  serializeArticle,
+  deserializeArticle,
+  normalizeSentiment,
+  SENTIMENTS,
+} from './utils';
 export { Logger, LogLevel, noopLogger, createLogger } from './logger';
+export { RetryPolicy, JitterStrategy, defaultRetryPolicy } from './retry';
+export { RateLimiter, RateLimiterOptions, RateLimiterStats } from './rateLimit';
+export {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitState,
+  CircuitStateChange,
+  CircuitStats,
+} from './circuitBreaker';
+export { QuotaTracker, QuotaSnapshot, QuotaOptions, QuotaThresholdEvent, parseRateLimitHeaders } from './quota';
+export {
+  DedupArticle,
+  DedupIdentity,
+  DedupOptions,
+  DedupStore,
+  DedupStoreOptions,
+  MemoryDedupStore,
+  FileDedupStore,
+  normalizeLink,
+  getArticleIdentity,
+} from './dedup';
+export {
+  ResponseCache,
+  MemoryCacheStore,
+  CacheStore,
+  CacheEntry,
+  CacheOptions,
+  CacheMode,
+  CacheStats,
+  defaultCacheTtls,
+} from './cache';
+export {
+  PayloadValidator,
+  PayloadValidationError,
+  PayloadIssue,
+  PayloadSchema,
+  PayloadCheckResult,
+  FieldSpec,
+  SchemaMode,
+  SchemaValidationOptions,
+  UnknownFieldPolicy,
+  ARTICLE_SCHEMA,
+  COMPANY_SCHEMA,
+  LISTING_SCHEMA,
+  RAW_ARTICLE_SCHEMA,
+  SOURCE_SCHEMA,
+  checkPayload,
+} from './schema';
+export {
+  q,
+  QueryBuilder,
+  QueryInput,
+  QueryTarget,
+  QueryField,
+  QueryNode,
+  QuerySpan,
+  QueryIssue,
+  QueryValidationResult,
+  QueryError,
+  QuerySyntaxError,
+  QUERY_FIELDS,
+  parseQuery,
+  validateQuery,
+  normalizeQuery,
+  printQuery,
+  compileQuery,
+  matchesQuery,
+  ArticlePredicate,
+} from './query';
+export {
+  ARTICLE_CATEGORIES,
+  MIN_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  validateGetArticlesParams,
+  validateGetArticleByLinkParams,
+  validateBackfillRange,
+  validateWebSocketParams,
+  validateRawWebSocketParams,
+  validatePageSize,
+  validatePage,
+  validateDate,
+  validateDateRange,
+  validateCountries,
+  validateCategories,
+  validateLanguage,
+  validateSourceConflicts,
+} from './validation';
 
 export class FinlightApi {
   private apiClient: ApiClient;
@@ -29,10 +168,62 @@ export class FinlightApi {
   ) {
     const finalConfig = { ...defaultApiConfig, ...config };
     this.apiClient = new ApiClient(finalConfig);
-    this.articles = new ArticleService(this.apiClient);
-    this.sources = new SourceService(this.apiClient);
-    this.websocket = new WebSocketClient(finalConfig, websocketOptions);
-    this.rawWebsocket = new RawWebSocketClient(finalConfig, websocketOptions);
+    const payloads = new PayloadValidator(
+      finalConfig.schemaValidation,
+      createLogger(finalConfig.logger ?? console, finalConfig.logLevel ?? 'info'),
+    );
+    this.articles = new ArticleService(this.apiClient, finalConfig.validateParams ?? true, payloads);
+    this.sources = new SourceService(this.apiClient, payloads);
+    this.websocket = new WebSocketClient(finalConfig, websocketOptions, this.apiClient.quota, this.articles);
+    this.rawWebsocket = new RawWebSocketClient(finalConfig, websocketOptions, this.apiClient.quota);
     this.webhook = new WebhookService();
   }
+
+  /**
+   * Adds a middleware around every REST request made by any service.
+   * Middleware run in the order they were added and see every retry attempt.
+   *
+   * @returns The client, for chaining
+   *
+   * @example
+   * ```typescript
+   * api.use((request, next) => next({ ...request, headers: { ...request.headers, 'X-Trace-Id': traceId() } }));
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.apiClient.use(middleware);
+    return this;
+  }
+
+  /**
+   * Client-side rate limiter shared by all REST services, if `rateLimit` is configured.
+   * Use `getStats()` to observe queue depth and wait times.
+   */
+  get rateLimiter(): RateLimiter | undefined {
+    return this.apiClient.rateLimiter;
+  }
+
+  /**
+   * Circuit breaker around REST requests, if `circuitBreaker` is configured.
+   * Use `getState()` and `getStats()` for health checks.
+   */
+  get circuitBreaker(): CircuitBreaker | undefined {
+    return this.apiClient.circuitBreaker;
+  }
+
+  /**
+   * Latest known plan limits: remaining requests, reset time and WebSocket connection allowance.
+   * Updated from every REST response and WebSocket admission.
+   */
+  get quota(): QuotaSnapshot {
+    return this.apiClient.quota.getSnapshot();
+  }
+
+  /**
+   * REST response cache, if `cache` is configured.
+   * Use `getStats()` for hit/miss counts and `clear()` to drop all entries.
+   */
+  get cache(): ResponseCache | undefined {
+    return this.apiClient.cache;
+  }
 }
@@ -0,0 +1,2 @@
+export { Middleware, MiddlewareNext } from './types';
+export { composeMiddleware } from './pipeline';
@@ -0,0 +1,11 @@
+import { Middleware, MiddlewareNext } from './types';
+
+/**
+ * Chains middleware around a final handler; the first middleware runs outermost
+ *
+ * @param middleware - Middleware in the order they were registered
+ * @param handler - Sends the request once every middleware called `next`
+ */
+export function composeMiddleware(middleware: readonly Middleware[], handler: MiddlewareNext): MiddlewareNext {
+  return middleware.reduceRight<MiddlewareNext>((next, current) => (request) => current(request, next), handler);
+}
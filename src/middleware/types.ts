@@ -0,0 +1,28 @@
+import { TransportRequest, TransportResponse } from '../transport';
+
+/**
+ * Passes the request on to the next middleware, or to the transport
+ */
+export type MiddlewareNext = (request: TransportRequest) => Promise<TransportResponse>;
+
+/**
+ * Wraps every REST request attempt, including retries.
+ *
+ * A middleware can change the request before calling `next`, inspect or
+ * replace the response it returns, observe errors it throws (timeouts,
+ * aborts and network failures; HTTP errors arrive as responses with their
+ * status), or return a synthetic response without calling `next` at all.
+ *
+ * @example
+ * ```typescript
+ * const timing: Middleware = async (request, next) => {
+ *   const startedAt = Date.now();
+ *   try {
+ *     return await next(request);
+ *   } finally {
+ *     console.log(`${request.method} ${request.url} took ${Date.now() - startedAt}ms`);
+ *   }
+ * };
+ * ```
+ */
+export type Middleware = (request: TransportRequest, next: MiddlewareNext) => Promise<TransportResponse>;
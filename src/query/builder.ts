@@ -0,0 +1,156 @@
+import { QueryError } from './errors';
+import { describeTarget, isFieldSupported } from './fields';
+import { parseQuery } from './parser';
+import { printQuery } from './printer';
+import { QueryField, QueryNode, QueryTarget } from './types';
+
+/**
+ * Immutable, fluent builder for finlight query strings.
+ *
+ * Create builders with the `q` helpers and combine them with `and`, `or`
+ * and `andNot`. Every method returns a new builder.
+ *
+ * @example
+ * ```typescript
+ * const query = q.ticker('AAPL').or(q.ticker('NVDA')).andNot(q.source('reuters.com'));
+ * query.toString(); // '(ticker:AAPL OR ticker:NVDA) AND NOT source:reuters.com'
+ * ```
+ */
+export class QueryBuilder {
+  constructor(private readonly node: QueryNode) {}
+
+  /**
+   * Requires this query and all others to match
+   */
+  and(...others: QueryBuilder[]): QueryBuilder {
+    return new QueryBuilder(combine('and', [this.node, ...others.map((other) => other.node)]));
+  }
+
+  /**
+   * Requires this query or any of the others to match
+   */
+  or(...others: QueryBuilder[]): QueryBuilder {
+    return new QueryBuilder(combine('or', [this.node, ...others.map((other) => other.node)]));
+  }
+
+  /**
+   * Requires this query to match and the other one not to
+   */
+  andNot(other: QueryBuilder): QueryBuilder {
+    return this.and(other.not());
+  }
+
+  /**
+   * Negates this query
+   */
+  not(): QueryBuilder {
+    return new QueryBuilder(this.node.type === 'not' ? this.node.child : { type: 'not', child: this.node });
+  }
+
+  /**
+   * Returns the query as an AST
+   */
+  toAST(): QueryNode {
+    return this.node;
+  }
+
+  /**
+   * Renders the query string without checking fields against a target
+   */
+  toString(): string {
+    return printQuery(this.node);
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  /**
+   * Renders the query string for a target
+   *
+   * @param target - Where the query is sent to (default: 'rest')
+   * @throws {QueryError} If the query uses fields the target does not support
+   */
+  build(target: QueryTarget = 'rest'): string {
+    const unsupported = [...new Set(collectFields(this.node))].filter((field) => !isFieldSupported(field, target));
+    if (unsupported.length === 1) {
+      throw new QueryError(`Field '${unsupported[0]}:' is not supported by ${describeTarget(target)}`);
+    }
+    if (unsupported.length > 1) {
+      const fields = unsupported.map((field) => `'${field}:'`).join(', ');
+      throw new QueryError(`Fields ${fields} are not supported by ${describeTarget(target)}`);
+    }
+    return this.toString();
+  }
+}
+
+/**
+ * Query input accepted by all `query` parameters: a query string or a builder
+ */
+export type QueryInput = string | QueryBuilder;
+
+/**
+ * Renders a query input for a target, validating builders against the target's fields
+ */
+export function resolveQuery(query: QueryInput | undefined, target: QueryTarget): string | undefined {
+  return query instanceof QueryBuilder ? query.build(target) : query;
+}
+
+function combine(type: 'and' | 'or', nodes: QueryNode[]): QueryNode {
+  // Flatten nested nodes of the same operator: (a AND b) AND c => a AND b AND c
+  const children = nodes.flatMap((node) => (node.type === type ? node.children : [node]));
+  return children.length === 1 ? children[0] : { type, children };
+}
+
+function collectFields(node: QueryNode): string[] {
+  switch (node.type) {
+    case 'field':
+      return [node.field];
+    case 'not':
+      return collectFields(node.child);
+    case 'and':
+    case 'or':
+      return node.children.flatMap(collectFields);
+    default:
+      return [];
+  }
+}
+
+function requireValue(value: string, what: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new QueryError(`${what} must be a non-empty string`);
+  }
+  return value;
+}
+
+const field = (name: QueryField) => (value: string) =>
+  new QueryBuilder({ type: 'field', field: name, value: requireValue(value, `${name}:`) });
+
+/**
+ * Entry points of the query builder
+ */
+export const q = {
+  /** Parses an existing query string into a builder, e.g. to extend user input */
+  parse: (query: string) => new QueryBuilder(parseQuery(query)),
+  /** Free-text word, e.g. `Tesla` */
+  term: (value: string) => new QueryBuilder({ type: 'term', value: requireValue(value, 'Term') }),
+  /** Exact phrase, e.g. `"Elon Musk"` */
+  phrase: (value: string) => new QueryBuilder({ type: 'phrase', value: requireValue(value, 'Phrase') }),
+  /** Any field filter, e.g. `q.field('ticker', 'AAPL')` */
+  field: (name: QueryField, value: string) => field(name)(value),
+  ticker: field('ticker'),
+  isin: field('isin'),
+  exchange: field('exchange'),
+  country: field('country'),
+  source: field('source'),
+  title: field('title'),
+  summary: field('summary'),
+  content: field('content'),
+  category: field('category'),
+  /** All of the queries must match */
+  all: (first: QueryBuilder, ...rest: QueryBuilder[]) => first.and(...rest),
+  /** Any of the queries must match */
+  any: (first: QueryBuilder, ...rest: QueryBuilder[]) => first.or(...rest),
+  /** The query must not match */
+  not: (query: QueryBuilder) => query.not(),
+};
@@ -0,0 +1,37 @@
+import { QuerySpan } from './types';
+
+/**
+ * Thrown when a query cannot be built or is not valid for its target.
+ */
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
+
+/**
+ * Thrown when a query string cannot be parsed.
+ *
+ * The message points at the offending position, e.g.
+ * ```
+ * Unexpected ')' at position 11
+ *   ticker:AAPL)
+ *              ^
+ * ```
+ */
+export class QuerySyntaxError extends QueryError {
+  /** Offset of the offending token in the query string */
+  readonly position: number;
+  readonly span: QuerySpan;
+  /** Message without the position marker */
+  readonly reason: string;
+
+  constructor(reason: string, query: string, span: QuerySpan) {
+    super(`${reason} at position ${span.start}\n  ${query}\n  ${' '.repeat(span.start)}^`);
+    this.name = 'QuerySyntaxError';
+    this.reason = reason;
+    this.position = span.start;
+    this.span = span;
+  }
+}
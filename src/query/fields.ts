@@ -0,0 +1,43 @@
+import { QueryField, QueryTarget } from './types';
+
+const ALL_FIELDS: readonly QueryField[] = [
+  'ticker',
+  'isin',
+  'exchange',
+  'country',
+  'source',
+  'title',
+  'summary',
+  'content',
+  'category',
+];
+
+/**
+ * Fields supported by each query target.
+ * The raw stream is not enriched, so only textual fields can be filtered.
+ */
+export const QUERY_FIELDS: Record<QueryTarget, readonly QueryField[]> = {
+  rest: ALL_FIELDS,
+  websocket: ALL_FIELDS,
+  raw: ['source', 'title', 'summary'],
+};
+
+const TARGET_NAMES: Record<QueryTarget, string> = {
+  rest: 'the REST API',
+  websocket: 'the enhanced WebSocket',
+  raw: 'the raw WebSocket',
+};
+
+/**
+ * Whether a field can be used in queries sent to the given target
+ */
+export function isFieldSupported(field: string, target: QueryTarget): boolean {
+  return (QUERY_FIELDS[target] as readonly string[]).includes(field);
+}
+
+/**
+ * Human readable name of a target, used in error messages
+ */
+export function describeTarget(target: QueryTarget): string {
+  return TARGET_NAMES[target];
+}
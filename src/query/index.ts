@@ -0,0 +1,19 @@
+export {
+  QueryTarget,
+  QueryField,
+  QuerySpan,
+  QueryNode,
+  TermNode,
+  PhraseNode,
+  FieldNode,
+  AndNode,
+  OrNode,
+  NotNode,
+} from './types';
+export { QUERY_FIELDS, isFieldSupported } from './fields';
+export { QueryError, QuerySyntaxError } from './errors';
+export { parseQuery } from './parser';
+export { validateQuery, normalizeQuery, QueryIssue, QueryValidationResult } from './validator';
+export { printQuery } from './printer';
+export { QueryBuilder, QueryInput, q, resolveQuery } from './builder';
+export { compileQuery, matchesQuery, ArticlePredicate } from './matcher';
@@ -0,0 +1,137 @@
+import { Article, RawArticle } from '../types';
+import { QueryBuilder, QueryInput } from './builder';
+import { parseQuery } from './parser';
+import { QueryNode } from './types';
+
+/**
+ * Predicate produced by `compileQuery`
+ */
+export type ArticlePredicate = (article: Article | RawArticle) => boolean;
+
+type TextField = 'title' | 'summary' | 'content';
+
+/**
+ * Compiles a query into a predicate that evaluates it locally against
+ * articles, e.g. to fan one WebSocket or webhook stream out to several
+ * narrower sub-queries.
+ *
+ * Matching rules:
+ * - terms and phrases match whole words in the title, summary or content, case-insensitively
+ * - `title:`, `summary:` and `content:` match whole words in that field only
+ * - `ticker:`, `isin:` and `exchange:` match any tagged company, including its listings
+ * - `country:` matches the article's countries or any tagged company's country
+ * - `source:` matches the source domain or any of its subdomains (`reuters.com` matches `www.reuters.com`)
+ * - `category:` matches the article's categories
+ *
+ * Differences from the server: there is no stemming or relevance scoring, and
+ * fields missing from an article never match, so raw articles (no companies)
+ * and articles fetched without content or entities match fewer queries.
+ *
+ * @param query - Query string, builder or parsed AST
+ * @throws {QuerySyntaxError} If a query string cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * const isChipNews = compileQuery('(ticker:NVDA OR ticker:AMD) AND NOT source:reuters.com');
+ * api.websocket.connect({ query: 'semiconductor' }, (article) => {
+ *   if (isChipNews(article)) notifyChipDesk(article);
+ * });
+ * ```
+ */
+export function compileQuery(query: QueryInput | QueryNode): ArticlePredicate {
+  const ast = typeof query === 'string' ? parseQuery(query) : query instanceof QueryBuilder ? query.toAST() : query;
+  return compileNode(ast);
+}
+
+/**
+ * Evaluates a query against a single article. Prefer `compileQuery` when
+ * matching many articles against the same query.
+ */
+export function matchesQuery(article: Article | RawArticle, query: QueryInput | QueryNode): boolean {
+  return compileQuery(query)(article);
+}
+
+function compileNode(node: QueryNode): ArticlePredicate {
+  switch (node.type) {
+    case 'and': {
+      const children = node.children.map(compileNode);
+      return (article) => children.every((child) => child(article));
+    }
+    case 'or': {
+      const children = node.children.map(compileNode);
+      return (article) => children.some((child) => child(article));
+    }
+    case 'not': {
+      const child = compileNode(node.child);
+      return (article) => !child(article);
+    }
+    case 'term':
+    case 'phrase':
+      return textMatcher(node.value, ['title', 'summary', 'content']);
+    case 'field':
+      return fieldMatcher(node.field, node.value);
+  }
+}
+
+function fieldMatcher(field: string, value: string): ArticlePredicate {
+  const expected = value.toLowerCase();
+  const equals = (candidate: string | undefined) => candidate?.toLowerCase() === expected;
+
+  switch (field) {
+    case 'title':
+    case 'summary':
+    case 'content':
+      return textMatcher(value, [field]);
+    case 'ticker':
+      return (article) =>
+        companiesOf(article).some(
+          (company) =>
+            equals(company.ticker) ||
+            equals(company.primaryListing?.ticker) ||
+            !!company.otherListings?.some((listing) => equals(listing.ticker)),
+        );
+    case 'isin':
+      return (article) => companiesOf(article).some((company) => equals(company.isin) || !!company.isins?.some(equals));
+    case 'exchange':
+      return (article) =>
+        companiesOf(article).some(
+          (company) =>
+            equals(company.exchange) ||
+            equals(company.primaryListing?.exchangeCode) ||
+            !!company.otherListings?.some((listing) => equals(listing.exchangeCode)),
+        );
+    case 'country':
+      return (article) =>
+        !!('countries' in article && article.countries?.some(equals)) ||
+        companiesOf(article).some((company) => equals(company.country));
+    case 'category':
+      return (article) => !!('categories' in article && article.categories?.some(equals));
+    case 'source':
+      return (article) => {
+        const source = article.source?.toLowerCase();
+        return !!source && (source === expected || source.endsWith(`.${expected}`));
+      };
+    default:
+      // Unknown fields cannot be evaluated locally
+      return () => false;
+  }
+}
+
+function textMatcher(value: string, fields: TextField[]): ArticlePredicate {
+  const words = value.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${words}(?![\\p{L}\\p{N}])`, 'iu');
+
+  return (article) =>
+    fields.some((field) => {
+      const text = (article as Partial<Record<TextField, unknown>>)[field];
+      return typeof text === 'string' && pattern.test(text);
+    });
+}
+
+function companiesOf(article: Article | RawArticle) {
+  return ('companies' in article && article.companies) || [];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
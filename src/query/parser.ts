@@ -0,0 +1,237 @@
+import { QuerySyntaxError } from './errors';
+import { FieldNode, QueryNode, QuerySpan } from './types';
+
+type TokenType = 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'word' | 'phrase' | 'field';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  /** Field name for `field` tokens */
+  field?: string;
+  /** Whether a `field` token's value was quoted */
+  quoted?: boolean;
+  span: QuerySpan;
+}
+
+const KEYWORDS: Record<string, TokenType> = { AND: 'and', OR: 'or', NOT: 'not' };
+const FIELD_PATTERN = /^([A-Za-z]+):(.*)$/;
+const DESCRIPTIONS: Partial<Record<TokenType, string>> = { lparen: "'('", rparen: "')'" };
+
+/**
+ * Parses a finlight query string into an AST with source positions.
+ *
+ * Grammar, from lowest to highest precedence:
+ * - `a OR b`
+ * - `a AND b`, or `a b` (implicit AND)
+ * - `NOT a`
+ * - `(group)`, `"phrase"`, `field:value`, `field:"quoted value"`, `term`
+ *
+ * Operators must be upper case; lower case `and`/`or`/`not` are search terms.
+ * The parser accepts any `field:` name; use `validateQuery` to check fields
+ * against a target.
+ *
+ * @throws {QuerySyntaxError} If the query is empty or malformed
+ *
+ * @example
+ * ```typescript
+ * parseQuery('(ticker:AAPL OR ticker:NVDA) AND NOT source:reuters.com');
+ * ```
+ */
+export function parseQuery(query: string): QueryNode {
+  return new Parser(query).parse();
+}
+
+class Parser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly query: string) {
+    this.tokens = tokenize(query);
+  }
+
+  parse(): QueryNode {
+    if (this.tokens.length === 0) {
+      throw new QuerySyntaxError('Query is empty', this.query, { start: 0, end: 0 });
+    }
+
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      throw this.unexpected(next);
+    }
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.type === 'or') {
+      const operator = this.next();
+      children.push(this.parseAnd(operator));
+    }
+    return group('or', children);
+  }
+
+  private parseAnd(after?: Token): QueryNode {
+    const children = [this.parseUnary(after)];
+    while (true) {
+      const next = this.peek();
+      if (next?.type === 'and') {
+        this.next();
+        children.push(this.parseUnary(next));
+      } else if (
+        next &&
+        (next.type === 'word' ||
+          next.type === 'phrase' ||
+          next.type === 'field' ||
+          next.type === 'lparen' ||
+          next.type === 'not')
+      ) {
+        // Adjacent terms are combined with an implicit AND
+        children.push(this.parseUnary());
+      } else {
+        return group('and', children);
+      }
+    }
+  }
+
+  private parseUnary(after?: Token): QueryNode {
+    const token = this.peek();
+    if (token?.type === 'not') {
+      this.next();
+      const child = this.parseUnary(token);
+      return { type: 'not', child, span: { start: token.span.start, end: child.span!.end } };
+    }
+    return this.parsePrimary(after);
+  }
+
+  private parsePrimary(after?: Token): QueryNode {
+    const token = this.next();
+
+    if (!token) {
+      const end = this.query.length;
+      if (after) {
+        throw new QuerySyntaxError(`Expected a term after '${after.value}'`, this.query, after.span);
+      }
+      throw new QuerySyntaxError('Unexpected end of query', this.query, { start: end, end });
+    }
+
+    switch (token.type) {
+      case 'word':
+        return { type: 'term', value: token.value, span: token.span };
+      case 'phrase':
+        return { type: 'phrase', value: token.value, span: token.span };
+      case 'field': {
+        const node: FieldNode = { type: 'field', field: token.field!, value: token.value, span: token.span };
+        if (token.quoted) {
+          node.quoted = true;
+        }
+        return node;
+      }
+      case 'lparen': {
+        if (this.peek()?.type === 'rparen') {
+          throw new QuerySyntaxError('Empty parentheses', this.query, token.span);
+        }
+        const inner = this.parseOr();
+        const closing = this.next();
+        if (closing?.type !== 'rparen') {
+          throw new QuerySyntaxError("Missing closing parenthesis for '('", this.query, token.span);
+        }
+        return { ...inner, span: { start: token.span.start, end: closing.span.end } };
+      }
+      default:
+        if (after) {
+          throw new QuerySyntaxError(`Expected a term after '${after.value}'`, this.query, after.span);
+        }
+        throw this.unexpected(token);
+    }
+  }
+
+  private unexpected(token: Token): QuerySyntaxError {
+    if (token.type === 'rparen') {
+      return new QuerySyntaxError("Unexpected ')' without matching '('", this.query, token.span);
+    }
+    const description = DESCRIPTIONS[token.type] ?? `'${token.value}'`;
+    return new QuerySyntaxError(`Unexpected ${description}`, this.query, token.span);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+}
+
+function group(type: 'and' | 'or', children: QueryNode[]): QueryNode {
+  if (children.length === 1) {
+    return children[0];
+  }
+  const span = { start: children[0].span!.start, end: children[children.length - 1].span!.end };
+  // Flatten redundant groups: (a AND b) AND c => a AND b AND c
+  const flattened = children.flatMap((child) => (child.type === type ? child.children : [child]));
+  return { type, children: flattened, span };
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', value: char, span: { start: i, end: i + 1 } });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(query, i);
+      tokens.push({ type: 'phrase', value, span: { start: i, end } });
+      i = end;
+    } else {
+      const start = i;
+      while (i < query.length && !/[\s()"]/.test(query[i])) {
+        i++;
+      }
+      const word = query.slice(start, i);
+      const fieldMatch = FIELD_PATTERN.exec(word);
+
+      if (fieldMatch && fieldMatch[2] === '' && query[i] === '"') {
+        // field:"quoted value"
+        const { value, end } = readQuoted(query, i);
+        tokens.push({ type: 'field', field: fieldMatch[1], value, quoted: true, span: { start, end } });
+        i = end;
+      } else if (fieldMatch) {
+        if (fieldMatch[2] === '') {
+          throw new QuerySyntaxError(`Missing value for field '${fieldMatch[1]}:'`, query, { start, end: i });
+        }
+        tokens.push({ type: 'field', field: fieldMatch[1], value: fieldMatch[2], span: { start, end: i } });
+      } else {
+        tokens.push({ type: KEYWORDS[word] ?? 'word', value: word, span: { start, end: i } });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function readQuoted(query: string, start: number): { value: string; end: number } {
+  let value = '';
+  let i = start + 1;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (char === '\\' && i + 1 < query.length) {
+      value += query[i + 1];
+      i += 2;
+    } else if (char === '"') {
+      return { value, end: i + 1 };
+    } else {
+      value += char;
+      i++;
+    }
+  }
+
+  throw new QuerySyntaxError('Unterminated quote', query, { start, end: query.length });
+}
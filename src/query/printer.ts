@@ -0,0 +1,47 @@
+import { QueryNode } from './types';
+
+const KEYWORDS = ['AND', 'OR', 'NOT'];
+
+/**
+ * Renders a query AST as a query string.
+ *
+ * Nested groups are always parenthesized, so the result never depends on
+ * operator precedence, and values are quoted whenever they contain
+ * whitespace, quotes, parentheses or colons, or spell an upper case operator.
+ *
+ * @example printQuery(q.ticker('AAPL').or(q.ticker('NVDA')).andNot(q.source('reuters.com')).toAST())
+ * // => '(ticker:AAPL OR ticker:NVDA) AND NOT source:reuters.com'
+ */
+export function printQuery(node: QueryNode): string {
+  switch (node.type) {
+    case 'term':
+      return formatValue(node.value);
+    case 'phrase':
+      return quote(node.value);
+    case 'field':
+      return `${node.field}:${node.quoted ? quote(node.value) : formatValue(node.value)}`;
+    case 'not':
+      return `NOT ${printChild(node.child)}`;
+    case 'and':
+      return node.children.map(printChild).join(' AND ');
+    case 'or':
+      return node.children.map(printChild).join(' OR ');
+  }
+}
+
+/**
+ * Quotes a value if it cannot be written bare. Operators are case-sensitive, so `and` stays bare.
+ */
+export function formatValue(value: string): string {
+  const needsQuotes = value === '' || /[\s"()\\:]/.test(value) || KEYWORDS.includes(value);
+  return needsQuotes ? quote(value) : value;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function printChild(node: QueryNode): string {
+  const printed = printQuery(node);
+  return node.type === 'and' || node.type === 'or' ? `(${printed})` : printed;
+}
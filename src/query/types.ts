@@ -0,0 +1,77 @@
+/**
+ * Where a query is sent to. Each target supports a different set of fields.
+ *
+ * - `rest`: `ArticleService` search endpoints
+ * - `websocket`: enhanced WebSocket stream
+ * - `raw`: raw WebSocket stream
+ */
+export type QueryTarget = 'rest' | 'websocket' | 'raw';
+
+/**
+ * Field names of the finlight query language, e.g. `ticker:AAPL`
+ */
+export type QueryField =
+  | 'ticker'
+  | 'isin'
+  | 'exchange'
+  | 'country'
+  | 'source'
+  | 'title'
+  | 'summary'
+  | 'content'
+  | 'category';
+
+/**
+ * Location of a node in the query string (`end` is exclusive)
+ */
+export interface QuerySpan {
+  start: number;
+  end: number;
+}
+
+/** Free-text word, e.g. `Tesla` */
+export interface TermNode {
+  type: 'term';
+  value: string;
+  span?: QuerySpan;
+}
+
+/** Quoted free-text phrase, e.g. `"Elon Musk"` */
+export interface PhraseNode {
+  type: 'phrase';
+  value: string;
+  span?: QuerySpan;
+}
+
+/** Field filter, e.g. `ticker:AAPL` or `title:"rate cut"` */
+export interface FieldNode {
+  type: 'field';
+  field: string;
+  value: string;
+  /** Whether the value was quoted */
+  quoted?: boolean;
+  span?: QuerySpan;
+}
+
+export interface AndNode {
+  type: 'and';
+  children: QueryNode[];
+  span?: QuerySpan;
+}
+
+export interface OrNode {
+  type: 'or';
+  children: QueryNode[];
+  span?: QuerySpan;
+}
+
+export interface NotNode {
+  type: 'not';
+  child: QueryNode;
+  span?: QuerySpan;
+}
+
+/**
+ * Abstract syntax tree of a finlight query
+ */
+export type QueryNode = TermNode | PhraseNode | FieldNode | AndNode | OrNode | NotNode;
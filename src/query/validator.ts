@@ -0,0 +1,108 @@
+import { QuerySyntaxError } from './errors';
+import { describeTarget, isFieldSupported, QUERY_FIELDS } from './fields';
+import { parseQuery } from './parser';
+import { printQuery } from './printer';
+import { QueryNode, QuerySpan, QueryTarget } from './types';
+
+/**
+ * A single problem found in a query
+ */
+export interface QueryIssue {
+  code: 'syntax' | 'unknown_field' | 'unsupported_field' | 'empty_value';
+  message: string;
+  span?: QuerySpan;
+}
+
+export interface QueryValidationResult {
+  valid: boolean;
+  issues: QueryIssue[];
+  /** Parsed query, if it could be parsed */
+  ast?: QueryNode;
+  /** Canonical form of the query, if it is valid */
+  normalized?: string;
+}
+
+/**
+ * Validates a query string for a target without throwing.
+ *
+ * Reports the first syntax error, or every unknown field, field the
+ * target does not support and empty value.
+ *
+ * @param query - Query string entered by a user
+ * @param target - Where the query will be sent to (default: 'rest')
+ *
+ * @example
+ * ```typescript
+ * const result = validateQuery('ticker:AAPL AND title:iPhone', 'raw');
+ * if (!result.valid) {
+ *   console.log(result.issues.map((issue) => issue.message));
+ *   // ["Field 'ticker:' is not supported by the raw WebSocket"]
+ * }
+ * ```
+ */
+export function validateQuery(query: string, target: QueryTarget = 'rest'): QueryValidationResult {
+  let ast: QueryNode;
+  try {
+    ast = parseQuery(query);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { valid: false, issues: [{ code: 'syntax', message: error.message, span: error.span }] };
+    }
+    throw error;
+  }
+
+  const issues = collectIssues(ast, target);
+  return issues.length > 0 ? { valid: false, issues, ast } : { valid: true, issues, ast, normalized: printQuery(ast) };
+}
+
+/**
+ * Parses a query string and prints it back in canonical form:
+ * explicit `AND`, parenthesized groups, and consistent quoting.
+ *
+ * @throws {QuerySyntaxError} If the query cannot be parsed
+ *
+ * @example normalizeQuery('ticker:AAPL  "rate cut" OR(ticker:MSFT)')
+ * // => '(ticker:AAPL AND "rate cut") OR ticker:MSFT'
+ */
+export function normalizeQuery(query: string): string {
+  return printQuery(parseQuery(query));
+}
+
+function collectIssues(node: QueryNode, target: QueryTarget): QueryIssue[] {
+  switch (node.type) {
+    case 'field': {
+      const allFields = QUERY_FIELDS.rest as readonly string[];
+      if (!allFields.includes(node.field)) {
+        return [
+          {
+            code: 'unknown_field',
+            message: `Unknown field '${node.field}:'. Supported fields: ${QUERY_FIELDS[target].join(', ')}`,
+            span: node.span,
+          },
+        ];
+      }
+      if (!isFieldSupported(node.field, target)) {
+        return [
+          {
+            code: 'unsupported_field',
+            message: `Field '${node.field}:' is not supported by ${describeTarget(target)}`,
+            span: node.span,
+          },
+        ];
+      }
+      return node.value.trim() === '' ? [emptyValue(node)] : [];
+    }
+    case 'term':
+    case 'phrase':
+      return node.value.trim() === '' ? [emptyValue(node)] : [];
+    case 'not':
+      return collectIssues(node.child, target);
+    case 'and':
+    case 'or':
+      return node.children.flatMap((child) => collectIssues(child, target));
+  }
+}
+
+function emptyValue(node: QueryNode): QueryIssue {
+  return { code: 'empty_value', message: 'Empty search value', span: node.span };
+}
@@ -0,0 +1,50 @@
+import { getHeader } from '../utils';
+import { QuotaSnapshot } from './types';
+
+/**
+ * Reads rate-limit headers of a response: `X-RateLimit-Limit`, `X-RateLimit-Remaining`
+ * and `X-RateLimit-Reset`, or their unprefixed `RateLimit-*` equivalents.
+ *
+ * The reset may be given as seconds until the reset, epoch seconds, epoch ms or an HTTP date.
+ *
+ * @returns Only the fields present in the headers
+ */
+export function parseRateLimitHeaders(
+  headers: Record<string, unknown> | undefined,
+  now: number = Date.now(),
+): Pick<QuotaSnapshot, 'limit' | 'remaining' | 'resetAt'> {
+  const read = (name: string) => getHeader(headers, `x-ratelimit-${name}`) ?? getHeader(headers, `ratelimit-${name}`);
+
+  const limit = parseCount(read('limit'));
+  const remaining = parseCount(read('remaining'));
+  const resetAt = parseReset(read('reset'), now);
+
+  return {
+    ...(limit !== undefined && { limit }),
+    ...(remaining !== undefined && { remaining }),
+    ...(resetAt !== undefined && { resetAt }),
+  };
+}
+
+/**
+ * Parses the leading integer, so structured values like `100;w=60` are read as 100
+ */
+function parseCount(value: string | undefined): number | undefined {
+  const match = value?.trim().match(/^\d+/);
+  return match ? parseInt(match[0], 10) : undefined;
+}
+
+function parseReset(value: string | undefined, now: number): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const number = parseFloat(trimmed);
+    if (number >= 1e12) return Math.round(number); // epoch ms
+    if (number >= 1e9) return Math.round(number * 1000); // epoch seconds
+    return now + Math.round(number * 1000); // seconds until the reset
+  }
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : date;
+}
@@ -0,0 +1,3 @@
+export { QuotaSnapshot, QuotaOptions, QuotaThresholdEvent } from './types';
+export { QuotaTracker } from './quotaTracker';
+export { parseRateLimitHeaders } from './headers';
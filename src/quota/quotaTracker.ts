@@ -0,0 +1,95 @@
+import { Logger, noopLogger } from '../logger';
+import { coerceNumber, getHeader, parseRetryAfter } from '../utils';
+import { parseRateLimitHeaders } from './headers';
+import { QuotaOptions, QuotaSnapshot } from './types';
+
+const DEFAULT_THRESHOLDS = [0.2, 0.1, 0];
+
+/**
+ * Keeps the latest quota snapshot shared by the REST client and both WebSocket clients
+ */
+export class QuotaTracker {
+  private snapshot: QuotaSnapshot = {};
+  private readonly thresholds: number[];
+  /** Thresholds already reported in the current window */
+  private readonly crossed = new Set<number>();
+
+  constructor(
+    private readonly options: QuotaOptions = {},
+    private readonly log: Logger = noopLogger,
+  ) {
+    this.thresholds = [...(options.thresholds ?? DEFAULT_THRESHOLDS)].sort((a, b) => b - a);
+  }
+
+  /**
+   * Returns a copy of the latest snapshot
+   */
+  getSnapshot(): QuotaSnapshot {
+    return { ...this.snapshot };
+  }
+
+  /**
+   * Updates the snapshot from the headers of a REST response, including error responses.
+   * A 429 without rate-limit headers is read as no requests remaining until `Retry-After`.
+   */
+  updateFromResponse(status: number, headers: Record<string, unknown>, now: number = Date.now()): void {
+    const update = parseRateLimitHeaders(headers, now);
+    if (status === 429) {
+      update.remaining ??= 0;
+      const retryAfterMs = parseRetryAfter(getHeader(headers, 'retry-after'), now);
+      if (update.resetAt === undefined && retryAfterMs !== undefined) {
+        update.resetAt = now + retryAfterMs;
+      }
+    }
+    if (Object.keys(update).length === 0) {
+      return;
+    }
+    this.snapshot = { ...this.snapshot, ...update, updatedAt: now };
+    this.checkThresholds();
+  }
+
+  /**
+   * Updates the connection allowance from a WebSocket `admit` message, when the server includes it
+   */
+  updateFromAdmission(message: Record<string, unknown>, now: number = Date.now()): void {
+    const connectionLimit = coerceNumber(message.maxConnections);
+    const activeConnections = coerceNumber(message.activeConnections);
+    if (connectionLimit === undefined && activeConnections === undefined) {
+      return;
+    }
+    this.snapshot = {
+      ...this.snapshot,
+      ...(connectionLimit !== undefined && { connectionLimit }),
+      ...(activeConnections !== undefined && { activeConnections }),
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Reports every threshold `remaining` dropped to, once per window.
+   * A threshold is re-armed when `remaining` rises above it again, e.g. after a reset.
+   */
+  private checkThresholds(): void {
+    const { limit, remaining, resetAt } = this.snapshot;
+    if (!limit || remaining === undefined) {
+      return;
+    }
+    const ratio = remaining / limit;
+    for (const threshold of this.thresholds) {
+      if (ratio > threshold) {
+        this.crossed.delete(threshold);
+      } else if (!this.crossed.has(threshold)) {
+        this.crossed.add(threshold);
+        this.log.warn?.(
+          `Quota threshold of ${Math.round(threshold * 100)}% reached: ${remaining}/${limit} requests remaining`,
+        );
+        // A throwing callback must not turn the response that triggered it into a failure
+        try {
+          this.options.onThreshold?.({ threshold, remaining, limit, ...(resetAt !== undefined && { resetAt }) });
+        } catch (callbackError) {
+          this.log.error?.('Quota threshold callback error:', callbackError);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Latest known plan limits, updated from every REST response and WebSocket admission.
+ * Fields stay undefined until the server has reported them.
+ */
+export interface QuotaSnapshot {
+  /** Requests allowed in the current window */
+  limit?: number;
+  /** Requests left in the current window */
+  remaining?: number;
+  /** When the current window resets (epoch ms) */
+  resetAt?: number;
+  /** WebSocket connections allowed by the plan, reported on admission */
+  connectionLimit?: number;
+  /** WebSocket connections open for this API key, reported on admission */
+  activeConnections?: number;
+  /** When the snapshot was last updated (epoch ms) */
+  updatedAt?: number;
+}
+
+export interface QuotaOptions {
+  /**
+   * Fractions of `limit` that trigger `onThreshold` when `remaining` drops to or below them.
+   * Each fires once per window. Default: [0.2, 0.1, 0]
+   */
+  thresholds?: number[];
+  /** Called when `remaining` crosses one of the thresholds; errors it throws are logged, not rethrown */
+  onThreshold?: (event: QuotaThresholdEvent) => void;
+}
+
+export interface QuotaThresholdEvent {
+  /** The threshold that was crossed, as a fraction of `limit` */
+  threshold: number;
+  remaining: number;
+  limit: number;
+  resetAt?: number;
+}
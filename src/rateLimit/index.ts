@@ -0,0 +1,2 @@
+export { RateLimiterOptions, RateLimiterStats } from './types';
+export { RateLimiter } from './rateLimiter';
@@ -0,0 +1,193 @@
+import { AbortError } from '../errors';
+import { RateLimiterOptions, RateLimiterStats } from './types';
+
+interface QueueEntry {
+  run: () => void;
+  priority: number;
+  sequence: number;
+}
+
+/**
+ * Token-bucket rate limiter with a concurrency cap and a priority queue.
+ *
+ * Tasks with a higher priority are started first; tasks with equal priority
+ * are started in the order they were scheduled. When adaptive, the rate is
+ * halved on every 429 and recovers additively on success.
+ */
+export class RateLimiter {
+  private readonly maxRate?: number;
+  private readonly minRate?: number;
+  private readonly capacity: number;
+  private readonly maxConcurrent: number;
+  private readonly adaptive: boolean;
+
+  private currentRate?: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private inFlight = 0;
+  private sequence = 0;
+  private queue: QueueEntry[] = [];
+  private timer?: NodeJS.Timeout;
+
+  // Stats
+  private totalScheduled = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+  private rateLimitedCount = 0;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.maxRate = options.requestsPerSecond;
+    this.currentRate = options.requestsPerSecond;
+    this.minRate = options.minRequestsPerSecond ?? (this.maxRate !== undefined ? this.maxRate / 10 : undefined);
+    this.capacity = Math.max(1, options.burst ?? this.maxRate ?? 1);
+    this.maxConcurrent = options.maxConcurrent ?? Infinity;
+    this.adaptive = options.adaptive ?? true;
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Runs a task once a token and a concurrency slot are available
+   *
+   * @param task - Task to run
+   * @param priority - Higher values run first (default: 0)
+   * @param signal - Removes the task from the queue when aborted, without using a token
+   *
+   * @throws {AbortError} If the signal is aborted before the task starts
+   */
+  schedule<T>(task: () => Promise<T>, priority = 0, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AbortError());
+        return;
+      }
+      const enqueuedAt = Date.now();
+      const entry: QueueEntry = {
+        priority,
+        sequence: this.sequence++,
+        run: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.recordWait(Date.now() - enqueuedAt);
+          this.inFlight++;
+          void Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.inFlight--;
+              this.drain();
+            });
+        },
+      };
+      const onAbort = () => {
+        this.queue = this.queue.filter((queued) => queued !== entry);
+        reject(new AbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.insert(entry);
+      this.drain();
+    });
+  }
+
+  /**
+   * Reports a 429 response. Lowers the rate and pauses the queue when adaptive.
+   *
+   * @param retryAfterMs - Delay requested by the server, if any
+   */
+  onRateLimited(retryAfterMs?: number): void {
+    this.rateLimitedCount++;
+    if (!this.adaptive) {
+      return;
+    }
+
+    if (this.currentRate !== undefined) {
+      this.refill();
+      this.currentRate = Math.max(this.minRate!, this.currentRate / 2);
+    }
+    if (retryAfterMs) {
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfterMs);
+    }
+  }
+
+  /**
+   * Reports a successful response. Recovers the rate when adaptive.
+   */
+  onSuccess(): void {
+    if (!this.adaptive || this.currentRate === undefined || this.currentRate >= this.maxRate!) {
+      return;
+    }
+    this.refill();
+    this.currentRate = Math.min(this.maxRate!, this.currentRate + this.maxRate! / 20);
+  }
+
+  getStats(): RateLimiterStats {
+    return {
+      queueDepth: this.queue.length,
+      inFlight: this.inFlight,
+      currentRate: this.currentRate,
+      totalScheduled: this.totalScheduled,
+      rateLimitedCount: this.rateLimitedCount,
+      averageWaitMs: this.totalScheduled > 0 ? this.totalWaitMs / this.totalScheduled : 0,
+      maxWaitMs: this.maxWaitMs,
+      pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : undefined,
+    };
+  }
+
+  private insert(entry: QueueEntry): void {
+    // Keep the queue ordered by priority (desc), then sequence (asc)
+    let index = this.queue.length;
+    while (index > 0 && this.queue[index - 1].priority < entry.priority) {
+      index--;
+    }
+    this.queue.splice(index, 0, entry);
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    while (this.queue.length > 0 && this.inFlight < this.maxConcurrent) {
+      const waitMs = this.timeUntilNextSlot();
+      if (waitMs > 0) {
+        this.timer = setTimeout(() => this.drain(), waitMs);
+        return;
+      }
+
+      if (this.currentRate !== undefined) {
+        this.tokens -= 1;
+      }
+      this.queue.shift()!.run();
+    }
+  }
+
+  private timeUntilNextSlot(): number {
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      return this.pausedUntil - now;
+    }
+    if (this.currentRate === undefined) {
+      return 0;
+    }
+
+    this.refill();
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.currentRate) * 1000);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (this.currentRate !== undefined) {
+      this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.currentRate);
+    }
+    this.lastRefill = now;
+  }
+
+  private recordWait(waitMs: number): void {
+    this.totalScheduled++;
+    this.totalWaitMs += waitMs;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Options for the client-side rate limiter
+ */
+export interface RateLimiterOptions {
+  /** Sustained request rate (token refill rate). Unlimited when omitted. */
+  requestsPerSecond?: number;
+  /** Bucket capacity, i.e. how many requests may start at once after idling (default: requestsPerSecond) */
+  burst?: number;
+  /** Maximum number of requests in flight at the same time (default: unlimited) */
+  maxConcurrent?: number;
+  /**
+   * Lower the rate when the server answers 429 and recover it gradually on success,
+   * and pause the queue for the server's `Retry-After` delay (default: true)
+   */
+  adaptive?: boolean;
+  /** Floor for the adaptive rate (default: requestsPerSecond / 10) */
+  minRequestsPerSecond?: number;
+}
+
+/**
+ * Snapshot of the rate limiter's queue, useful for tuning
+ */
+export interface RateLimiterStats {
+  /** Requests waiting for a slot */
+  queueDepth: number;
+  /** Requests currently running */
+  inFlight: number;
+  /** Current refill rate, lowered after 429 responses when adaptive (undefined when unlimited) */
+  currentRate?: number;
+  /** Requests that went through the limiter so far */
+  totalScheduled: number;
+  /** 429 responses observed */
+  rateLimitedCount: number;
+  /** Average time spent waiting in the queue, in ms */
+  averageWaitMs: number;
+  /** Longest time spent waiting in the queue, in ms */
+  maxWaitMs: number;
+  /** Timestamp until which the queue is paused because of `Retry-After`, if any */
+  pausedUntil?: number;
+}
@@ -0,0 +1,2 @@
+export { RetryPolicy, ResolvedRetryPolicy, JitterStrategy } from './types';
+export { defaultRetryPolicy, resolveRetryPolicy, isRetryable, exceedsMaxDelay, computeRetryDelay } from './retryPolicy';
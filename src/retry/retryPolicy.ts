@@ -0,0 +1,98 @@
+import { FinlightApiError, NetworkError, TimeoutError } from '../errors';
+import { ResolvedRetryPolicy, RetryPolicy } from './types';
+
+/**
+ * Defaults used for any option not set on the configured policy
+ */
+export const defaultRetryPolicy: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: 'full',
+  respectRetryAfter: true,
+  retryOnNetworkErrors: true,
+  retryableStatuses: [429, 500, 502, 503, 504],
+};
+
+/**
+ * Merges a partial policy with the defaults
+ *
+ * @param policy - User supplied policy
+ * @param retryCount - Legacy `retryCount` option, used as `maxAttempts` when the policy does not set it
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}, retryCount?: number): ResolvedRetryPolicy {
+  return {
+    ...defaultRetryPolicy,
+    maxAttempts: retryCount ?? defaultRetryPolicy.maxAttempts,
+    ...stripUndefined(policy),
+  };
+}
+
+/**
+ * Decides whether a failed attempt should be retried, ignoring attempt and time budgets
+ */
+export function isRetryable(policy: ResolvedRetryPolicy, error: FinlightApiError, attempt: number): boolean {
+  if (policy.shouldRetry) {
+    return policy.shouldRetry(error, attempt);
+  }
+
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return policy.retryOnNetworkErrors;
+  }
+
+  return error.status !== undefined && policy.retryableStatuses.includes(error.status);
+}
+
+/**
+ * Whether the server asked to wait longer than a single delay may last.
+ * Such a request fails with its error rather than being retried before the server accepts it.
+ */
+export function exceedsMaxDelay(policy: ResolvedRetryPolicy, error: FinlightApiError): boolean {
+  return policy.respectRetryAfter && error.retryAfterMs !== undefined && error.retryAfterMs > policy.maxDelayMs;
+}
+
+/**
+ * Computes the delay before the next attempt
+ *
+ * @param policy - Resolved retry policy
+ * @param attempt - Number of attempts made so far (1 after the first failure)
+ * @param error - Error of the last attempt
+ * @param previousDelayMs - Delay used before the last attempt, for decorrelated jitter
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  error: FinlightApiError,
+  previousDelayMs = 0,
+): number {
+  // The server knows best when it will accept requests again. Jitter only ever adds to its delay,
+  // so clients told the same Retry-After spread out without retrying early.
+  if (policy.respectRetryAfter && error.retryAfterMs !== undefined) {
+    if (exceedsMaxDelay(policy, error) || policy.jitter === 'none') {
+      return error.retryAfterMs;
+    }
+    const jitterRange = Math.min(policy.baseDelayMs, policy.maxDelayMs - error.retryAfterMs);
+    return error.retryAfterMs + Math.round(Math.random() * jitterRange);
+  }
+
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+
+  switch (policy.jitter) {
+    case 'full':
+      return Math.round(Math.random() * exponential);
+    case 'equal':
+      return Math.round(exponential / 2 + (Math.random() * exponential) / 2);
+    case 'decorrelated': {
+      const upper = Math.max(policy.baseDelayMs, previousDelayMs * 3);
+      const delay = policy.baseDelayMs + Math.random() * (upper - policy.baseDelayMs);
+      return Math.round(Math.min(policy.maxDelayMs, delay));
+    }
+    default:
+      return exponential;
+  }
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
@@ -0,0 +1,47 @@
+import { FinlightApiError } from '../errors';
+
+/**
+ * Jitter strategy applied to the exponential backoff delay
+ *
+ * - `none`: exact exponential delay
+ * - `full`: random delay between 0 and the exponential delay
+ * - `equal`: half the exponential delay plus a random share of the other half
+ * - `decorrelated`: random delay between the base delay and three times the previous delay
+ */
+export type JitterStrategy = 'none' | 'full' | 'equal' | 'decorrelated';
+
+/**
+ * Controls when and how often failed REST requests are retried
+ */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one (default: `retryCount` or 3) */
+  maxAttempts?: number;
+  /** Stop retrying once this much time has passed since the first attempt, in ms (default: unlimited) */
+  maxElapsedMs?: number;
+  /** Delay before the first retry, in ms (default: 500) */
+  baseDelayMs?: number;
+  /**
+   * Upper bound for a single delay, in ms (default: 30000).
+   * A request whose `Retry-After` asks for longer is not retried.
+   */
+  maxDelayMs?: number;
+  /** Jitter strategy (default: 'full') */
+  jitter?: JitterStrategy;
+  /** Whether to wait for the server's `Retry-After` delay on 429/503 responses, plus up to `baseDelayMs` of jitter (default: true) */
+  respectRetryAfter?: boolean;
+  /** Whether to retry timeouts and connection errors like ECONNRESET (default: true) */
+  retryOnNetworkErrors?: boolean;
+  /** HTTP statuses that are retried (default: [429, 500, 502, 503, 504]) */
+  retryableStatuses?: number[];
+  /**
+   * Custom predicate deciding whether an error is retried.
+   * Replaces the status and network error checks when provided.
+   */
+  shouldRetry?: (error: FinlightApiError, attempt: number) => boolean;
+}
+
+/**
+ * Retry policy with all defaults applied
+ */
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'maxElapsedMs' | 'shouldRetry'>> &
+  Pick<RetryPolicy, 'maxElapsedMs' | 'shouldRetry'>;
@@ -0,0 +1,20 @@
+import { PayloadIssue } from './types';
+
+/**
+ * Thrown in strict schema mode when a payload received from the API does not
+ * match its schema. Lists every problem found, not just the first one.
+ */
+export class PayloadValidationError extends Error {
+  /** Name of the schema, e.g. `Article` */
+  readonly payloadType: string;
+  readonly issues: PayloadIssue[];
+
+  constructor(payloadType: string, issues: PayloadIssue[]) {
+    super(
+      `Invalid ${payloadType} payload:\n${issues.map((issue) => `  - ${issue.path}: ${issue.message}`).join('\n')}`,
+    );
+    this.name = 'PayloadValidationError';
+    this.payloadType = payloadType;
+    this.issues = issues;
+  }
+}
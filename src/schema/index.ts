@@ -0,0 +1,12 @@
+export {
+  SchemaMode,
+  UnknownFieldPolicy,
+  SchemaValidationOptions,
+  FieldSpec,
+  PayloadSchema,
+  PayloadIssue,
+  PayloadCheckResult,
+} from './types';
+export { PayloadValidationError } from './errors';
+export { ARTICLE_SCHEMA, COMPANY_SCHEMA, LISTING_SCHEMA, RAW_ARTICLE_SCHEMA, SOURCE_SCHEMA } from './schemas';
+export { checkPayload, PayloadValidator } from './validator';
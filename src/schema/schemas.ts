@@ -0,0 +1,72 @@
+import { SENTIMENTS } from '../utils/coercion';
+import { PayloadSchema } from './types';
+
+export const LISTING_SCHEMA: PayloadSchema = {
+  name: 'Listing',
+  fields: {
+    ticker: { type: 'string', required: true },
+    exchangeCode: { type: 'string', required: true },
+    exchangeCountry: { type: 'string', required: true },
+  },
+};
+
+export const COMPANY_SCHEMA: PayloadSchema = {
+  name: 'Company',
+  fields: {
+    companyId: { type: 'number', required: true },
+    confidence: { type: 'number' },
+    country: { type: 'string' },
+    exchange: { type: 'string' },
+    industry: { type: 'string' },
+    sector: { type: 'string' },
+    name: { type: 'string', required: true },
+    ticker: { type: 'string', required: true },
+    isin: { type: 'string' },
+    openfigi: { type: 'string' },
+    primaryListing: { type: 'object', schema: LISTING_SCHEMA },
+    isins: { type: 'string[]' },
+    otherListings: { type: 'array', schema: LISTING_SCHEMA },
+  },
+};
+
+export const ARTICLE_SCHEMA: PayloadSchema = {
+  name: 'Article',
+  fields: {
+    link: { type: 'string', required: true },
+    title: { type: 'string', required: true },
+    publishDate: { type: 'date', required: true },
+    source: { type: 'string', required: true },
+    language: { type: 'string', required: true },
+    sentiment: { type: 'enum', values: SENTIMENTS },
+    confidence: { type: 'number' },
+    summary: { type: 'string' },
+    images: { type: 'string[]' },
+    content: { type: 'string' },
+    companies: { type: 'array', schema: COMPANY_SCHEMA },
+    createdAt: { type: 'date' },
+    categories: { type: 'string[]' },
+    countries: { type: 'string[]' },
+  },
+};
+
+export const RAW_ARTICLE_SCHEMA: PayloadSchema = {
+  name: 'RawArticle',
+  fields: {
+    link: { type: 'string', required: true },
+    title: { type: 'string', required: true },
+    publishDate: { type: 'date', required: true },
+    source: { type: 'string', required: true },
+    language: { type: 'string', required: true },
+    summary: { type: 'string' },
+    images: { type: 'string[]' },
+  },
+};
+
+export const SOURCE_SCHEMA: PayloadSchema = {
+  name: 'Source',
+  fields: {
+    domain: { type: 'string', required: true },
+    isContentAvailable: { type: 'boolean', required: true },
+    isDefaultSource: { type: 'boolean', required: true },
+  },
+};
@@ -0,0 +1,46 @@
+/**
+ * How payload violations are reported:
+ * - `strict` throws a PayloadValidationError
+ * - `lenient` logs a warning and returns the payload with invalid fields passed through unchanged
+ * - `off` skips the schema check and its warnings
+ *
+ * In every mode, articles then go through the article coercion rules (see `transformArticle`):
+ * invalid dates, sentiment and confidence values are removed. Only strict mode throws.
+ */
+export type SchemaMode = 'strict' | 'lenient' | 'off';
+
+/** What to do with fields the schema does not know */
+export type UnknownFieldPolicy = 'preserve' | 'strip';
+
+export interface SchemaValidationOptions {
+  /** Default: 'lenient' */
+  mode?: SchemaMode;
+  /** Default: 'preserve', so fields added by the API later still come through */
+  unknownFields?: UnknownFieldPolicy;
+}
+
+export type FieldSpec =
+  | { type: 'string' | 'number' | 'boolean' | 'date' | 'string[]'; required?: boolean }
+  | { type: 'enum'; values: readonly string[]; required?: boolean }
+  | { type: 'object' | 'array'; schema: PayloadSchema; required?: boolean };
+
+/**
+ * Shape of an API payload. `number` fields accept numeric strings, `date` fields
+ * accept ISO strings and epoch ms, and `enum` values are matched case-insensitively; all are coerced.
+ */
+export interface PayloadSchema {
+  name: string;
+  fields: Record<string, FieldSpec>;
+}
+
+export interface PayloadIssue {
+  /** Path of the offending field, e.g. `publishDate` or `companies[0].confidence` */
+  path: string;
+  message: string;
+}
+
+export interface PayloadCheckResult<T> {
+  /** The normalized payload */
+  value: T;
+  issues: PayloadIssue[];
+}
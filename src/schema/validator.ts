@@ -0,0 +1,184 @@
+import { Article, Company, Listing, RawArticle, Source } from '../types';
+import { Logger, noopLogger } from '../logger';
+import { coerceDate, coerceNumber, transformArticle, transformRawArticle } from '../utils';
+import { PayloadValidationError } from './errors';
+import { ARTICLE_SCHEMA, COMPANY_SCHEMA, LISTING_SCHEMA, RAW_ARTICLE_SCHEMA, SOURCE_SCHEMA } from './schemas';
+import {
+  FieldSpec,
+  PayloadCheckResult,
+  PayloadIssue,
+  PayloadSchema,
+  SchemaValidationOptions,
+  UnknownFieldPolicy,
+} from './types';
+
+/**
+ * Checks a payload against a schema and normalizes it.
+ *
+ * Numeric strings in `number` fields become numbers, and ISO strings or epoch ms
+ * in `date` fields become Dates. `enum` fields are lowercased and trimmed.
+ * Optional fields that are `null` are dropped.
+ * Fields that fail their check are kept unchanged and reported as issues.
+ *
+ * @example
+ * ```typescript
+ * const { value, issues } = checkPayload<Article>(ARTICLE_SCHEMA, JSON.parse(stored));
+ * ```
+ */
+export function checkPayload<T>(
+  schema: PayloadSchema,
+  payload: unknown,
+  options: SchemaValidationOptions = {},
+): PayloadCheckResult<T> {
+  const issues: PayloadIssue[] = [];
+  const value = checkObject(schema, payload, '', options.unknownFields ?? 'preserve', issues);
+  return { value: value as T, issues };
+}
+
+function checkObject(
+  schema: PayloadSchema,
+  value: unknown,
+  path: string,
+  unknownFields: UnknownFieldPolicy,
+  issues: PayloadIssue[],
+): unknown {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ path: path || '(root)', message: `expected an object, got ${describeValue(value)}` });
+    return value;
+  }
+  const input = value as Record<string, unknown>;
+  const output: Record<string, unknown> = unknownFields === 'preserve' ? { ...input } : {};
+
+  for (const [field, spec] of Object.entries(schema.fields)) {
+    const fieldPath = path ? `${path}.${field}` : field;
+    const fieldValue = input[field];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (spec.required) {
+        issues.push({ path: fieldPath, message: 'is required' });
+      }
+      delete output[field];
+      continue;
+    }
+    output[field] = checkField(spec, fieldValue, fieldPath, unknownFields, issues);
+  }
+  return output;
+}
+
+function checkField(
+  spec: FieldSpec,
+  value: unknown,
+  path: string,
+  unknownFields: UnknownFieldPolicy,
+  issues: PayloadIssue[],
+): unknown {
+  const invalid = (expected: string) => {
+    issues.push({ path, message: `expected ${expected}, got ${describeValue(value)}` });
+    return value;
+  };
+
+  switch (spec.type) {
+    case 'string':
+      return typeof value === 'string' ? value : invalid('a string');
+    case 'boolean':
+      return typeof value === 'boolean' ? value : invalid('a boolean');
+    case 'number': {
+      const number = coerceNumber(value);
+      return number ?? invalid('a number or numeric string');
+    }
+    case 'date': {
+      const date = coerceDate(value);
+      return date ?? invalid('an ISO 8601 date string or epoch ms');
+    }
+    case 'enum': {
+      const normalized = typeof value === 'string' ? value.trim().toLowerCase() : undefined;
+      return normalized !== undefined && spec.values.includes(normalized)
+        ? normalized
+        : invalid(`one of ${spec.values.join(', ')}`);
+    }
+    case 'string[]':
+      if (!Array.isArray(value)) return invalid('an array of strings');
+      value.forEach((item, index) => {
+        if (typeof item !== 'string') {
+          issues.push({ path: `${path}[${index}]`, message: `expected a string, got ${describeValue(item)}` });
+        }
+      });
+      return value;
+    case 'object':
+      return checkObject(spec.schema, value, path, unknownFields, issues);
+    case 'array':
+      if (!Array.isArray(value)) return invalid(`an array of ${spec.schema.name}`);
+      return value.map((item, index) => checkObject(spec.schema, item, `${path}[${index}]`, unknownFields, issues));
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+/**
+ * Validates and normalizes payloads received from the REST API, WebSockets and webhooks
+ */
+export class PayloadValidator {
+  constructor(
+    private readonly options: SchemaValidationOptions = {},
+    private readonly log: Logger = noopLogger,
+  ) {}
+
+  /**
+   * Checks an article and applies the article coercion rules (see `transformArticle`) in every mode
+   *
+   * @throws {PayloadValidationError} In strict mode, if the payload does not match the schema
+   */
+  article(payload: unknown): Article {
+    return this.parse(ARTICLE_SCHEMA, payload, transformArticle);
+  }
+
+  articles(payloads: unknown[]): Article[] {
+    return payloads.map((payload) => this.article(payload));
+  }
+
+  rawArticle(payload: unknown): RawArticle {
+    return this.parse(RAW_ARTICLE_SCHEMA, payload, transformRawArticle);
+  }
+
+  company(payload: unknown): Company {
+    return this.parse(COMPANY_SCHEMA, payload, (value) => value as Company);
+  }
+
+  listing(payload: unknown): Listing {
+    return this.parse(LISTING_SCHEMA, payload, (value) => value as Listing);
+  }
+
+  source(payload: unknown): Source {
+    return this.parse(SOURCE_SCHEMA, payload, (value) => value as Source);
+  }
+
+  sources(payloads: unknown[]): Source[] {
+    return payloads.map((payload) => this.source(payload));
+  }
+
+  /**
+   * Runs the schema check for the configured mode, then `coerce` on the result, so fields
+   * that failed a lenient check never reach typed code with the wrong type.
+   * `coerce` logs the fields it removes only when validation is off; lenient mode has already reported them.
+   */
+  private parse<T>(schema: PayloadSchema, payload: unknown, coerce: (payload: any, log: Logger) => T): T {
+    const mode = this.options.mode ?? 'lenient';
+    if (mode === 'off') {
+      return coerce(payload, this.log);
+    }
+    const { value, issues } = checkPayload<T>(schema, payload, this.options);
+    if (issues.length > 0) {
+      const error = new PayloadValidationError(schema.name, issues);
+      if (mode === 'strict') {
+        throw error;
+      }
+      this.log.warn?.(error.message);
+    }
+    return coerce(value, noopLogger);
+  }
+}
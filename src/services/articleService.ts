@@ -1,12 +1,40 @@
 import { ApiClient } from '../client/apiClient';
-import { Article, GetArticleApiResponse, GetArticleByLinkParams, GetArticlesParams } from '../types';
-import { transformArticle, transformArticles } from '../utils';
+import {
+  Article,
+  ArticleByLinkResult,
+  BackfillOptions,
+  BackfillParams,
+  FetchArticlesByLinksOptions,
+  GetArticleApiResponse,
+  GetArticleByLinkParams,
+  GetArticlesParams,
+  MetadataRequestOptions,
+  PaginationOptions,
+  RequestOptions,
+  WithMetadata,
+} from '../types';
+import { AbortError, FinlightApiError, NotFoundError } from '../errors';
+import { resolveQuery } from '../query';
+import { mapWithConcurrency, normalizeDateInput, resolveDate, resolveRangeEnd, throwIfAborted } from '../utils';
+import {
+  assertValidParams,
+  validateBackfillRange,
+  validateGetArticleByLinkParams,
+  validateGetArticlesParams,
+} from '../validation';
+import { PayloadValidator } from '../schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Service for fetching and managing financial news articles.
  */
 export class ArticleService {
-  constructor(private apiClient: ApiClient) {}
+  constructor(
+    private apiClient: ApiClient,
+    private readonly validateParams = true,
+    private readonly payloads = new PayloadValidator(),
+  ) {}
 
   /**
    * Fetches financial news articles based on the provided search parameters.
@@ -15,42 +43,54 @@ export class ArticleService {
    * Articles are returned with metadata including sentiment, company tags, and content.
    *
    * @param params - Search parameters for filtering articles
-   * @param params.query - Advanced query string. Supports boolean operators and field filters.
+   * @param params.query - Advanced query string or `q` query builder. Supports boolean operators and field filters.
    *                       Example: `(ticker:AAPL OR ticker:NVDA) AND NOT source:reuters.com`
    * @param params.tickers - Filter by company tickers (e.g., ['AAPL', 'NVDA'])
    * @param params.sources - Limit to specific news sources (overrides default source set)
    * @param params.excludeSources - Sources to exclude from results
    * @param params.countries - Filter by country codes (e.g., ['US', 'GB'])
-   * @param params.from - Start date in YYYY-MM-DD format or ISO date string
-   * @param params.to - End date in YYYY-MM-DD format or ISO date string
+   * @param params.from - Start date: YYYY-MM-DD, ISO date string, Date, epoch ms or relative (e.g. `{ last: '24h' }`)
+   * @param params.to - End date: YYYY-MM-DD, ISO date string, Date, epoch ms or relative (e.g. `'now'`)
    * @param params.includeContent - Whether to include full article content
    * @param params.includeEntities - Whether to include tagged company data
    * @param params.page - Page number for pagination
    * @param params.pageSize - Number of results per page (1-1000)
+   * @param options - Per-call options: AbortSignal, timeout, retryCount, headers, cache control and priority.
+   *                  With `includeMetadata: true`, resolves to `{ data, metadata }` with the response status, headers and timing
    *
    * @returns Promise resolving to paginated article results with metadata
    *
-   * @throws {Error} If the API request fails
+   * @throws {AbortError} If the signal is aborted
+   * @throws {QueryError} If a query builder uses fields the REST API does not support
+   * @throws {ParamsValidationError} If the parameters are invalid (checked before sending)
+   * @throws {ValidationError} If the server rejects the search parameters
+   * @throws {AuthenticationError} If the API key is invalid
+   * @throws {RateLimitError} If the rate limit is exceeded after all retries
+   * @throws {PayloadValidationError} In strict schema mode, if an article does not match its schema
+   * @throws {FinlightApiError} For any other request failure
    *
    * @example
    * ```typescript
    * const response = await articleService.fetchArticles({
    *   tickers: ['AAPL'],
    *   countries: ['US'],
-   *   from: '2024-01-01',
+   *   from: { last: '7d' },
    *   includeContent: true,
    *   pageSize: 20
    * });
    * ```
    */
-  async fetchArticles(params: GetArticlesParams): Promise<GetArticleApiResponse> {
-    const response = await this.apiClient.request<GetArticleApiResponse>('POST', '/v2/articles', params);
-
-    // Transform articles to ensure proper types
-    return {
-      ...response,
-      articles: transformArticles(response.articles),
-    };
+  fetchArticles(
+    params: GetArticlesParams,
+    options: MetadataRequestOptions,
+  ): Promise<WithMetadata<GetArticleApiResponse>>;
+  fetchArticles(params: GetArticlesParams, options?: RequestOptions): Promise<GetArticleApiResponse>;
+  async fetchArticles(
+    params: GetArticlesParams,
+    options?: RequestOptions & { includeMetadata?: boolean },
+  ): Promise<GetArticleApiResponse | WithMetadata<GetArticleApiResponse>> {
+    const result = await this.search(params, options, Date.now());
+    return options?.includeMetadata ? result : result.data;
   }
 
   /**
@@ -60,10 +100,17 @@ export class ArticleService {
    * @param params.link - The URL of the article to fetch
    * @param params.includeContent - Whether to include full article content
    * @param params.includeEntities - Whether to include tagged company data
+   * @param options - Per-call options: AbortSignal, timeout, retryCount, headers, cache control and priority.
+   *                  With `includeMetadata: true`, resolves to `{ data, metadata }` with the response status, headers and timing
    *
    * @returns Promise resolving to the article if found
    *
-   * @throws {Error} If the API request fails or article is not found
+   * @throws {AbortError} If the signal is aborted
+   * @throws {ParamsValidationError} If the link is not an absolute http(s) URL
+   * @throws {NotFoundError} If no article exists for the given link
+   * @throws {AuthenticationError} If the API key is invalid
+   * @throws {PayloadValidationError} In strict schema mode, if the article does not match its schema
+   * @throws {FinlightApiError} For any other request failure
    *
    * @example
    * ```typescript
@@ -73,8 +120,330 @@ export class ArticleService {
    * });
    * ```
    */
-  async fetchArticleByLink(params: GetArticleByLinkParams): Promise<Article> {
-    const response = await this.apiClient.request<Article>('GET', '/v2/articles/by-link', params);
-    return transformArticle(response);
+  fetchArticleByLink(params: GetArticleByLinkParams, options: MetadataRequestOptions): Promise<WithMetadata<Article>>;
+  fetchArticleByLink(params: GetArticleByLinkParams, options?: RequestOptions): Promise<Article>;
+  async fetchArticleByLink(
+    params: GetArticleByLinkParams,
+    options?: RequestOptions & { includeMetadata?: boolean },
+  ): Promise<Article | WithMetadata<Article>> {
+    if (this.validateParams) {
+      assertValidParams(validateGetArticleByLinkParams(params));
+    }
+    const { data, metadata } = await this.apiClient.requestWithMetadata<unknown>(
+      'GET',
+      '/v2/articles/by-link',
+      params,
+      options,
+    );
+    const article = this.payloads.article(data);
+    return options?.includeMetadata ? { data: article, metadata } : article;
+  }
+
+  /**
+   * Fetches many articles by link with bounded concurrency.
+   *
+   * Duplicate links are fetched once. A link that fails does not fail the
+   * batch; its result carries the error instead. Each request goes through
+   * the client's retry policy and rate limiter.
+   *
+   * @param links - URLs of the articles to fetch
+   * @param options - Concurrency, progress callback, AbortSignal and per-call options
+   *
+   * @returns One result per unique link, in the order the links were given
+   *
+   * @throws {AbortError} If the signal is aborted
+   *
+   * @example
+   * ```typescript
+   * const results = await articleService.fetchArticlesByLinks(links, {
+   *   concurrency: 10,
+   *   includeEntities: true,
+   *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+   * });
+   * const articles = results.flatMap((r) => (r.status === 'found' ? [r.article] : []));
+   * ```
+   */
+  async fetchArticlesByLinks(
+    links: string[],
+    options: FetchArticlesByLinksOptions = {},
+  ): Promise<ArticleByLinkResult[]> {
+    const { concurrency = 5, includeContent, includeEntities, onProgress, ...requestOptions } = options;
+    const uniqueLinks = [...new Set(links.map((link) => link.trim()))];
+    const progress = { completed: 0, total: uniqueLinks.length, found: 0, notFound: 0, failed: 0 };
+
+    return mapWithConcurrency(uniqueLinks, concurrency, async (link) => {
+      throwIfAborted(options.signal);
+      const result = await this.fetchLinkResult({ link, includeContent, includeEntities }, requestOptions);
+
+      progress.completed++;
+      if (result.status === 'found') progress.found++;
+      else if (result.status === 'not_found') progress.notFound++;
+      else progress.failed++;
+      onProgress?.({ link, ...progress });
+
+      return result;
+    });
+  }
+
+  /**
+   * Walks the search results page by page, starting at `params.page` (default: 1).
+   *
+   * Stops when a page is shorter than the page size, or when `maxItems` or
+   * `maxPages` is reached. Articles already yielded on an earlier page are
+   * removed from later pages unless `dedupe` is disabled.
+   *
+   * @param params - Search parameters, see {@link fetchArticles}
+   * @param options - Pagination limits, AbortSignal and per-call options
+   *
+   * @returns Async iterable of result pages
+   *
+   * @throws {AbortError} If the signal is aborted
+   * @throws {FinlightApiError} If a page request fails
+   *
+   * @example
+   * ```typescript
+   * for await (const page of articleService.paginate({ tickers: ['AAPL'], pageSize: 100 })) {
+   *   console.log(`Page ${page.page}: ${page.articles.length} articles`);
+   * }
+   * ```
+   */
+  async *paginate(params: GetArticlesParams, options: PaginationOptions = {}): AsyncGenerator<GetArticleApiResponse> {
+    const { maxItems, maxPages, dedupe = true, ...requestOptions } = options;
+    // Relative dates are pinned to the start of the walk so every page covers the same range
+    const now = Date.now();
+    const seenLinks = new Set<string>();
+    let page = params.page ?? 1;
+    let pagesFetched = 0;
+    let itemsYielded = 0;
+
+    while (maxPages === undefined || pagesFetched < maxPages) {
+      throwIfAborted(options.signal);
+      const { data: response } = await this.search({ ...params, page }, requestOptions, now);
+      throwIfAborted(options.signal);
+      pagesFetched++;
+
+      let articles = response.articles;
+      if (dedupe) {
+        articles = articles.filter((article) => !seenLinks.has(article.link));
+        articles.forEach((article) => seenLinks.add(article.link));
+      }
+      if (maxItems !== undefined) {
+        articles = articles.slice(0, maxItems - itemsYielded);
+      }
+
+      itemsYielded += articles.length;
+      yield { ...response, articles };
+
+      const pageSize = params.pageSize ?? response.pageSize;
+      const isLastPage = response.articles.length === 0 || response.articles.length < pageSize;
+      if (isLastPage || (maxItems !== undefined && itemsYielded >= maxItems)) {
+        return;
+      }
+      page++;
+    }
+  }
+
+  /**
+   * Iterates over every article matching the search parameters across all pages.
+   *
+   * Composes with `for await` and supports the same options as {@link paginate}.
+   *
+   * @param params - Search parameters, see {@link fetchArticles}
+   * @param options - Pagination limits, AbortSignal and per-call options
+   *
+   * @returns Async iterable of articles
+   *
+   * @throws {AbortError} If the signal is aborted
+   * @throws {FinlightApiError} If a page request fails
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * for await (const article of articleService.iterate({ query: 'Tesla' }, { maxItems: 500, signal: controller.signal })) {
+   *   console.log(article.title);
+   * }
+   * ```
+   */
+  async *iterate(params: GetArticlesParams, options: PaginationOptions = {}): AsyncGenerator<Article> {
+    for await (const page of this.paginate(params, options)) {
+      for (const article of page.articles) {
+        yield article;
+      }
+    }
+  }
+
+  /**
+   * Streams every article published in a date range, oldest first.
+   *
+   * The range is split into time windows that are each walked with
+   * `orderBy: 'publishDate'`. A window whose results reach `maxPagesPerWindow`
+   * full pages is split in half and fetched again, and sparse windows grow
+   * again, so dense periods are not truncated by paging limits. A window that
+   * is still full at `minWindowMs` is emitted as far as it could be walked.
+   *
+   * After each completed window `onCheckpoint` receives a checkpoint that can
+   * be passed as `resumeFrom` to continue an interrupted backfill.
+   *
+   * @param params - Search parameters with a required `from`/`to` range. Relative dates
+   *                 are resolved once when the backfill starts, and a YYYY-MM-DD `to` includes that whole day.
+   * @param options - Window sizing, checkpointing, AbortSignal and per-call options
+   *
+   * @returns Async iterable of articles in publish date order
+   *
+   * @throws {ParamsValidationError} If the date range or resume cursor is invalid
+   * @throws {AbortError} If the signal is aborted
+   * @throws {FinlightApiError} If a request fails
+   *
+   * @example
+   * ```typescript
+   * const checkpoint = await loadCheckpoint();
+   * for await (const article of articleService.backfill(
+   *   { tickers: ['AAPL', 'NVDA'], from: '2024-01-01', to: '2024-06-30' },
+   *   { resumeFrom: checkpoint, onCheckpoint: saveCheckpoint },
+   * )) {
+   *   await store(article);
+   * }
+   * ```
+   */
+  async *backfill(params: BackfillParams, options: BackfillOptions = {}): AsyncGenerator<Article> {
+    const {
+      initialWindowMs = DAY_MS,
+      minWindowMs = 60 * 1000,
+      maxWindowMs = 30 * DAY_MS,
+      pageSize = 1000,
+      maxPagesPerWindow = 10,
+      resumeFrom,
+      onCheckpoint,
+      ...requestOptions
+    } = options;
+    const { from, to, ...query } = params;
+
+    const now = Date.now();
+    assertValidParams(validateBackfillRange(params, resumeFrom?.cursor, now));
+    const start = resolveDate(resumeFrom?.cursor ?? from, now)!;
+    const end = resolveRangeEnd(to, now)!;
+
+    let cursor = start;
+    let windowMs = resumeFrom?.windowMs ?? initialWindowMs;
+    let articlesEmitted = resumeFrom?.articlesEmitted ?? 0;
+    // Articles on a window boundary may be returned by both adjacent windows
+    let previousWindowLinks = new Set<string>(resumeFrom?.boundaryLinks);
+
+    while (cursor < end) {
+      const windowEnd = Math.min(cursor + windowMs, end);
+      const { articles, truncated } = await this.fetchWindow(
+        { ...query, from: new Date(cursor).toISOString(), to: new Date(windowEnd).toISOString() },
+        pageSize,
+        maxPagesPerWindow,
+        requestOptions,
+      );
+
+      if (truncated && windowMs > minWindowMs) {
+        windowMs = Math.max(minWindowMs, Math.floor(windowMs / 2));
+        continue;
+      }
+
+      const windowLinks = new Set<string>();
+      for (const article of articles) {
+        windowLinks.add(article.link);
+        if (previousWindowLinks.has(article.link)) {
+          continue;
+        }
+        articlesEmitted++;
+        yield article;
+      }
+
+      previousWindowLinks = windowLinks;
+      cursor = windowEnd;
+      // Grow sparse windows to avoid needless requests
+      if (articles.length < (pageSize * maxPagesPerWindow) / 4) {
+        windowMs = Math.min(maxWindowMs, windowMs * 2);
+      }
+
+      const boundaryLinks = articles
+        .filter((article) => article.publishDate.getTime() >= cursor)
+        .map((article) => article.link);
+      await onCheckpoint?.({
+        cursor: new Date(cursor).toISOString(),
+        windowMs,
+        articlesEmitted,
+        ...(boundaryLinks.length > 0 && { boundaryLinks }),
+      });
+    }
+  }
+
+  /**
+   * Fetches one article by link, capturing failures in the result
+   */
+  private async fetchLinkResult(params: GetArticleByLinkParams, options: RequestOptions): Promise<ArticleByLinkResult> {
+    try {
+      return { link: params.link, status: 'found', article: await this.fetchArticleByLink(params, options) };
+    } catch (error) {
+      if (error instanceof AbortError) {
+        throw error;
+      }
+      if (error instanceof NotFoundError) {
+        return { link: params.link, status: 'not_found', error };
+      }
+      const apiError =
+        error instanceof FinlightApiError ? error : new FinlightApiError(String(error), { cause: error });
+      return { link: params.link, status: 'error', error: apiError };
+    }
+  }
+
+  /**
+   * Searches articles, resolving relative `from`/`to` dates against `now`
+   */
+  private async search(
+    params: GetArticlesParams,
+    options: RequestOptions | undefined,
+    now: number,
+  ): Promise<WithMetadata<GetArticleApiResponse>> {
+    const body = { ...params, query: resolveQuery(params.query, 'rest') };
+    if (this.validateParams) {
+      assertValidParams(validateGetArticlesParams(body, now));
+    }
+    if (body.from !== undefined) body.from = normalizeDateInput(body.from, now);
+    if (body.to !== undefined) body.to = normalizeDateInput(body.to, now);
+    const { data, metadata } = await this.apiClient.requestWithMetadata<GetArticleApiResponse>(
+      'POST',
+      '/v2/articles',
+      body,
+      options,
+    );
+
+    return {
+      data: { ...data, articles: this.payloads.articles(data.articles) },
+      metadata,
+    };
+  }
+
+  /**
+   * Fetches every page of a single backfill window
+   *
+   * @returns The window's articles and whether the page limit was reached
+   */
+  private async fetchWindow(
+    params: GetArticlesParams,
+    pageSize: number,
+    maxPages: number,
+    options: RequestOptions,
+  ): Promise<{ articles: Article[]; truncated: boolean }> {
+    const articles: Article[] = [];
+
+    for (let page = 1; page <= maxPages; page++) {
+      throwIfAborted(options.signal);
+      const response = await this.fetchArticles(
+        { ...params, orderBy: 'publishDate', order: 'ASC', pageSize, page },
+        options,
+      );
+      articles.push(...response.articles);
+
+      if (response.articles.length < pageSize) {
+        return { articles, truncated: false };
+      }
+    }
+
+    return { articles, truncated: true };
   }
 }
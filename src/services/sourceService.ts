@@ -1,11 +1,15 @@
 import { ApiClient } from '../client/apiClient';
-import { Source } from '../types';
+import { MetadataRequestOptions, RequestOptions, Source, WithMetadata } from '../types';
+import { PayloadValidator } from '../schema';
 
 /**
  * Service for managing and querying available news sources.
  */
 export class SourceService {
-  constructor(private apiClient: ApiClient) {}
+  constructor(
+    private apiClient: ApiClient,
+    private readonly payloads = new PayloadValidator(),
+  ) {}
 
   /**
    * Retrieves all available news sources with their configuration.
@@ -13,9 +17,15 @@ export class SourceService {
    * Returns metadata for each source including domain, content availability,
    * and whether it's included in the default source set.
    *
+   * @param options - Per-call options: AbortSignal, timeout, retryCount, headers, cache control and priority.
+   *                  With `includeMetadata: true`, resolves to `{ data, metadata }` with the response status, headers and timing
+   *
    * @returns Promise resolving to an array of all available news sources
    *
-   * @throws {Error} If the API request fails
+   * @throws {AbortError} If the signal is aborted
+   * @throws {AuthenticationError} If the API key is invalid
+   * @throws {PayloadValidationError} In strict schema mode, if a source does not match its schema
+   * @throws {FinlightApiError} For any other request failure
    *
    * @example
    * ```typescript
@@ -23,7 +33,18 @@ export class SourceService {
    * const defaults = sources.filter(s => s.isDefaultSource);
    * ```
    */
-  async getSources(): Promise<Source[]> {
-    return this.apiClient.request<Source[]>('GET', '/v2/sources');
+  getSources(options: MetadataRequestOptions): Promise<WithMetadata<Source[]>>;
+  getSources(options?: RequestOptions): Promise<Source[]>;
+  async getSources(
+    options?: RequestOptions & { includeMetadata?: boolean },
+  ): Promise<Source[] | WithMetadata<Source[]>> {
+    const { data, metadata } = await this.apiClient.requestWithMetadata<unknown[]>(
+      'GET',
+      '/v2/sources',
+      undefined,
+      options,
+    );
+    const sources = this.payloads.sources(data);
+    return options?.includeMetadata ? { data: sources, metadata } : sources;
   }
 }
@@ -1,9 +1,11 @@
 import crypto from 'crypto';
 import { Article } from '../types';
-import { transformArticle } from '../utils';
+import { createLogger } from '../logger';
+import { PayloadValidator } from '../schema';
 
 const SIGNATURE_PREFIX = 'sha256=';
 const REPLAY_ATTACK_TOLERANCE_MS = 5 * 60 * 1000; // 5 minutes
+const defaultPayloadValidator = new PayloadValidator({}, createLogger(console, 'warn'));
 
 /**
  * Custom error thrown when webhook verification fails.
@@ -36,10 +38,12 @@ export class WebhookService {
    * @param signature - The signature from the `X-Webhook-Signature` header
    * @param endpointSecret - Your webhook endpoint secret from the Finlight dashboard
    * @param timestamp - Optional timestamp from the `X-Webhook-Timestamp` header for replay protection
+   * @param payloads - Validator for the article payload (default: lenient, warnings logged to the console)
    *
    * @returns The verified and parsed article object
    *
    * @throws {WebhookVerificationError} If verification fails
+   * @throws {PayloadValidationError} If the validator is strict and the article does not match its schema
    *
    * @example
    * ```typescript
@@ -60,7 +64,13 @@ export class WebhookService {
    * });
    * ```
    */
-  static constructEvent(rawBody: string, signature: string, endpointSecret: string, timestamp?: string): Article {
+  static constructEvent(
+    rawBody: string,
+    signature: string,
+    endpointSecret: string,
+    timestamp?: string,
+    payloads: PayloadValidator = defaultPayloadValidator,
+  ): Article {
     const normalizedSignature = this.normalizeSignature(signature);
 
     this.verifySignature(rawBody, normalizedSignature, endpointSecret, timestamp);
@@ -69,7 +79,7 @@ export class WebhookService {
       this.verifyTimestamp(timestamp);
     }
 
-    return this.parsePayload(rawBody);
+    return this.parsePayload(rawBody, payloads);
   }
 
   private static normalizeSignature(signature: string): string {
@@ -96,13 +106,14 @@ export class WebhookService {
     }
   }
 
-  private static parsePayload(rawBody: string): Article {
+  private static parsePayload(rawBody: string, payloads: PayloadValidator): Article {
+    let parsed: unknown;
     try {
-      const parsed = JSON.parse(rawBody);
-      return transformArticle(parsed);
+      parsed = JSON.parse(rawBody);
     } catch (error) {
       throw new WebhookVerificationError('Invalid JSON payload');
     }
+    return payloads.article(parsed);
   }
 
   private static computeSignatureWithTimestamp(payload: string, secret: string, timestamp: string): string {
@@ -0,0 +1,49 @@
+import axios, { AxiosError, AxiosInstance } from 'axios';
+import { createAbortError, createNetworkError, createTimeoutError, normalizeHeaders } from './errors';
+import { serializeParams } from './params';
+import { Transport, TransportRequest, TransportResponse } from './types';
+
+/**
+ * Transport backed by axios (the default)
+ */
+export class AxiosTransport implements Transport {
+  /**
+   * @param client - Axios instance to send requests with (default: a new instance)
+   */
+  constructor(private readonly client: AxiosInstance = axios.create()) {}
+
+  async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    try {
+      const response = await this.client.request<T>({
+        method: request.method,
+        baseURL: request.baseUrl,
+        url: request.url,
+        headers: request.headers,
+        timeout: request.timeout,
+        signal: request.signal,
+        // Statuses are handled by the client
+        validateStatus: () => true,
+        ...(request.method === 'GET'
+          ? { params: request.params, paramsSerializer: { serialize: serializeParams } }
+          : { data: request.data }),
+      });
+      return { status: response.status, headers: normalizeHeaders(response.headers), data: response.data };
+    } catch (error) {
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
+      // Instances with their own validateStatus reject HTTP errors
+      if (error.response) {
+        const { status, headers, data } = error.response;
+        return { status, headers: normalizeHeaders(headers), data: data as T };
+      }
+      if (error.code === AxiosError.ERR_CANCELED) {
+        throw createAbortError(request, error);
+      }
+      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        throw createTimeoutError(request, error);
+      }
+      throw createNetworkError(request, error.message, error.code, error);
+    }
+  }
+}
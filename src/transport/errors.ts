@@ -0,0 +1,52 @@
+import { AbortError, NetworkError, TimeoutError } from '../errors';
+import { TransportRequest } from './types';
+
+/**
+ * Error for a request that did not complete within its timeout
+ */
+export function createTimeoutError(request: TransportRequest, cause?: unknown): TimeoutError {
+  const { method, url: endpoint } = request;
+  return new TimeoutError(`Request timed out (${method} ${endpoint})`, { method, endpoint, cause });
+}
+
+/**
+ * Error for a request that was aborted through its signal
+ */
+export function createAbortError(request: TransportRequest, cause?: unknown): AbortError {
+  const { method, url: endpoint } = request;
+  return new AbortError(`Request aborted (${method} ${endpoint})`, { method, endpoint, cause });
+}
+
+/**
+ * Error for a request that failed without a response, e.g. ECONNRESET
+ */
+export function createNetworkError(
+  request: TransportRequest,
+  message: string,
+  code?: string,
+  cause?: unknown,
+): NetworkError {
+  const { method, url: endpoint } = request;
+  return new NetworkError(`Network error: ${message} (${method} ${endpoint})`, { method, endpoint, code, cause });
+}
+
+/**
+ * Converts response headers to a record with lower case names
+ */
+export function normalizeHeaders(headers: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!headers || typeof headers !== 'object') {
+    return result;
+  }
+
+  const entries =
+    typeof Headers !== 'undefined' && headers instanceof Headers
+      ? [...headers.entries()]
+      : Object.entries(headers as Record<string, unknown>);
+  for (const [name, value] of entries) {
+    if (value !== undefined && value !== null) {
+      result[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return result;
+}
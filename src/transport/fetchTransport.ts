@@ -0,0 +1,74 @@
+import { createAbortError, createNetworkError, createTimeoutError, normalizeHeaders } from './errors';
+import { serializeParams } from './params';
+import { Transport, TransportRequest, TransportResponse } from './types';
+
+/**
+ * Transport backed by the global `fetch`, for runtimes where axios is not
+ * wanted such as edge functions, Deno or browsers
+ */
+export class FetchTransport implements Transport {
+  /**
+   * @param fetchFn - fetch implementation to use (default: the global `fetch`)
+   */
+  constructor(private readonly fetchFn: typeof fetch = (input, init) => fetch(input, init)) {}
+
+  async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    // One controller for both the caller's signal and the timeout
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    if (request.signal?.aborted) {
+      controller.abort();
+    }
+    const timer = request.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, request.timeout)
+      : undefined;
+
+    try {
+      const headers: Record<string, string> = { Accept: 'application/json', ...request.headers };
+      const init: RequestInit = { method: request.method, headers, signal: controller.signal };
+      if (request.method !== 'GET' && request.data !== undefined) {
+        headers['Content-Type'] = 'application/json';
+        init.body = JSON.stringify(request.data);
+      }
+
+      const response = await this.fetchFn(buildUrl(request), init);
+      const text = await response.text();
+      return { status: response.status, headers: normalizeHeaders(response.headers), data: parseBody<T>(text) };
+    } catch (error) {
+      if (timedOut) {
+        throw createTimeoutError(request, error);
+      }
+      if (controller.signal.aborted) {
+        throw createAbortError(request, error);
+      }
+      // Node's fetch reports the system error code (e.g. ECONNREFUSED) as the cause
+      const cause = (error as { cause?: { code?: string; message?: string } }).cause;
+      throw createNetworkError(request, cause?.message ?? (error as Error).message, cause?.code, error);
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+function buildUrl(request: TransportRequest): string {
+  // Join like axios does, so a base URL with a path prefix keeps it
+  const url = new URL(`${request.baseUrl.replace(/\/+$/, '')}/${request.url.replace(/^\/+/, '')}`);
+  if (request.method === 'GET' && request.params) {
+    url.search = serializeParams(request.params);
+  }
+  return url.toString();
+}
+
+function parseBody<T>(text: string): T {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return text as T;
+  }
+}
@@ -0,0 +1,5 @@
+export { Transport, TransportRequest, TransportResponse } from './types';
+export { AxiosTransport } from './axiosTransport';
+export { FetchTransport } from './fetchTransport';
+export { serializeParams } from './params';
+export { createTimeoutError, createAbortError, createNetworkError, normalizeHeaders } from './errors';
@@ -0,0 +1,16 @@
+/**
+ * Serializes GET params into a query string, the same way for every transport.
+ *
+ * Arrays become repeated keys (`tickers=AAPL&tickers=NVDA`), dates ISO 8601 strings,
+ * and `undefined` or `null` values are left out.
+ */
+export function serializeParams(params: Record<string, unknown>): string {
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      search.append(name, item instanceof Date ? item.toISOString() : String(item));
+    }
+  }
+  return search.toString();
+}
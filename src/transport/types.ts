@@ -0,0 +1,43 @@
+/**
+ * A request handed to a transport
+ */
+export interface TransportRequest {
+  method: 'GET' | 'POST';
+  /** Base URL of the API, e.g. `https://api.finlight.me` */
+  baseUrl: string;
+  /** Endpoint path, e.g. `/v2/articles` */
+  url: string;
+  /** Query params, sent with GET requests */
+  params?: Record<string, unknown>;
+  /** JSON body, sent with POST requests */
+  data?: unknown;
+  /** Headers including the API key */
+  headers: Record<string, string>;
+  /** Timeout in ms */
+  timeout?: number;
+  /** Aborts the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * A response returned by a transport, whatever its status
+ */
+export interface TransportResponse<T = unknown> {
+  status: number;
+  /** Response headers with lower case names */
+  headers: Record<string, string>;
+  /** Parsed JSON body, or the raw text if the body is not JSON */
+  data: T;
+}
+
+/**
+ * Sends HTTP requests for the REST client.
+ *
+ * A transport resolves with the response for every HTTP status; status
+ * handling, retries and error mapping are done by the client so they behave
+ * the same for every transport. Failures without a response must be thrown
+ * as `TimeoutError`, `AbortError` or `NetworkError`.
+ */
+export interface Transport {
+  request<T>(request: TransportRequest): Promise<TransportResponse<T>>;
+}
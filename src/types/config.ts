@@ -1,11 +1,80 @@
 import { LogLevel } from '../logger';
+import { RetryPolicy } from '../retry';
+import { RateLimiterOptions } from '../rateLimit';
+import { CircuitBreakerOptions } from '../circuitBreaker';
+import { QuotaOptions } from '../quota';
+import { CacheMode, CacheOptions } from '../cache';
+import { Transport } from '../transport';
+import { Middleware } from '../middleware';
+import { SchemaValidationOptions } from '../schema';
+import { ArticleByLinkProgress, BackfillCheckpoint } from './types';
 
 export interface ApiClientConfig {
   apiKey: string;
   baseUrl: string;
   timeout?: number;
+  /**
+   * Number of attempts per request, including the first one
+   * Shorthand for `retryPolicy.maxAttempts`
+   */
   retryCount?: number;
+  /**
+   * Controls retries of failed REST requests (backoff, jitter, Retry-After, retryable errors)
+   * @example retryPolicy: { maxAttempts: 5, maxElapsedMs: 30000, jitter: 'equal' }
+   */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Client-side rate limiting and concurrency cap shared by all REST services
+   * @example rateLimit: { requestsPerSecond: 5, maxConcurrent: 4 }
+   */
+  rateLimit?: RateLimiterOptions;
+  /**
+   * Fail fast with a CircuitOpenError instead of retrying while the API keeps failing.
+   * `true` uses the defaults: open at a 50% failure rate over 10+ requests, 30s cool-down.
+   * @example circuitBreaker: { scope: 'endpoint', failureRateThreshold: 0.5, coolDownMs: 30000 }
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+  /**
+   * Thresholds for quota warnings. The snapshot itself (`FinlightApi.quota`) is always kept up to date.
+   * @example quota: { thresholds: [0.1], onThreshold: (e) => alert(`${e.remaining} requests left`) }
+   */
+  quota?: QuotaOptions;
+  /**
+   * Opt-in cache for REST responses with per-endpoint TTLs and a pluggable store.
+   * `true` caches sources and article lookups by link with the default TTLs.
+   * @example cache: { endpointTtls: { '/v2/articles': 30000 }, staleWhileRevalidateMs: 60000 }
+   */
+  cache?: boolean | CacheOptions;
+  /**
+   * Share one request between concurrent calls with the same method, path and params
+   * instead of sending duplicates (default: false). Results are not kept after the request settles.
+   * Calls with a different `timeout`, `retryCount` or `priority` are not shared.
+   */
+  coalesceRequests?: boolean;
+  /**
+   * HTTP transport for REST requests: 'axios' (default), 'fetch' for runtimes with a global
+   * `fetch` such as edge functions, or a custom `Transport`
+   */
+  transport?: 'axios' | 'fetch' | Transport;
+  /**
+   * Middleware wrapping every REST request attempt, outermost first.
+   * More can be added later with `FinlightApi.use`.
+   */
+  middleware?: Middleware[];
   wssUrl: string;
+  /**
+   * Validate request and subscription parameters locally and throw a
+   * ParamsValidationError before anything is sent (default: true).
+   * Disable for forward compatibility with parameters this client does not know yet.
+   */
+  validateParams?: boolean;
+  /**
+   * Runtime checks of articles, companies and sources received over REST and WebSockets.
+   * Lenient mode (default) logs violations and continues, strict mode throws a PayloadValidationError.
+   * Article coercion rules, e.g. removing unknown sentiments and invalid dates, apply in every mode.
+   * @example schemaValidation: { mode: 'strict', unknownFields: 'strip' }
+   */
+  schemaValidation?: SchemaValidationOptions;
   /**
    * Logger instance - can be console, winston, pino, or any object with logging methods
    * @example logger: console
@@ -16,6 +85,84 @@ export interface ApiClientConfig {
   logLevel?: LogLevel;
 }
 
+/**
+ * Per-call options accepted by every REST service method
+ */
+export interface RequestOptions {
+  /**
+   * Cancels the call with an AbortError. Aborted calls are never retried, and a
+   * shared (coalesced) request is only aborted once every caller aborted.
+   */
+  signal?: AbortSignal;
+  /** Request timeout for this call, in ms (overrides `ApiClientConfig.timeout`) */
+  timeout?: number;
+  /** Number of attempts for this call, including the first one (overrides the retry policy) */
+  retryCount?: number;
+  /** Extra HTTP headers sent with this call */
+  headers?: Record<string, string>;
+  /** Cache control for this call when the response cache is enabled (default: 'default') */
+  cache?: CacheMode;
+  /** Queue priority when a rate limiter is configured; higher values run first (default: 0) */
+  priority?: number;
+}
+
+/**
+ * Per-call options that make a service method resolve to `{ data, metadata }`
+ * with the response status, headers and timing instead of the data alone
+ */
+export interface MetadataRequestOptions extends RequestOptions {
+  includeMetadata: true;
+}
+
+/**
+ * Options for walking article search results page by page
+ */
+export interface PaginationOptions extends RequestOptions {
+  /** Stop after yielding this many articles */
+  maxItems?: number;
+  /** Stop after fetching this many pages */
+  maxPages?: number;
+  /**
+   * Skip articles whose link was already yielded, e.g. when newly published
+   * articles shift results across page boundaries (default: true)
+   */
+  dedupe?: boolean;
+}
+
+/**
+ * Options for a time-window backfill
+ */
+export interface BackfillOptions extends RequestOptions {
+  /** Initial window size, in ms (default: 1 day) */
+  initialWindowMs?: number;
+  /** Windows are never shrunk below this size, in ms (default: 1 minute) */
+  minWindowMs?: number;
+  /** Windows are never grown above this size, in ms (default: 30 days) */
+  maxWindowMs?: number;
+  /** Page size used to walk each window (default: 1000) */
+  pageSize?: number;
+  /** Deepest page the backfill walks per window; full windows are split (default: 10) */
+  maxPagesPerWindow?: number;
+  /** Checkpoint of an interrupted backfill to resume from */
+  resumeFrom?: BackfillCheckpoint;
+  /** Called after every completed window with the checkpoint to persist */
+  onCheckpoint?: (checkpoint: BackfillCheckpoint) => void | Promise<void>;
+}
+
+/**
+ * Options for fetching many articles by link
+ */
+export interface FetchArticlesByLinksOptions extends RequestOptions {
+  /** Maximum number of links fetched at the same time (default: 5) */
+  concurrency?: number;
+  /** Whether to include full article content */
+  includeContent?: boolean;
+  /** Whether to include tagged company data */
+  includeEntities?: boolean;
+  /** Called after every completed link */
+  onProgress?: (progress: ArticleByLinkProgress) => void;
+}
+
 export const defaultApiConfig: ApiClientConfig = {
   baseUrl: 'https://api.finlight.me',
   timeout: 5000,
@@ -1,11 +1,19 @@
+import type { FinlightApiError } from '../errors';
+import { QueryInput } from '../query';
+
 // Basic types for API responses
+/**
+ * Sentiment of an article towards the companies it mentions
+ */
+export type Sentiment = 'positive' | 'negative' | 'neutral';
+
 export interface Article {
   link: string;
   title: string;
   publishDate: Date;
   source: string;
   language: string;
-  sentiment?: string;
+  sentiment?: Sentiment;
   confidence?: number;
   summary?: string;
   images?: string[];
@@ -16,6 +24,14 @@ export interface Article {
   countries?: string[];
 }
 
+/**
+ * JSON form of an `Article` as produced by `serializeArticle`, with dates as ISO 8601 strings
+ */
+export type SerializedArticle = Omit<Article, 'publishDate' | 'createdAt'> & {
+  publishDate: string;
+  createdAt?: string;
+};
+
 export interface Listing {
   ticker: string;
   exchangeCode: string;
@@ -38,6 +54,30 @@ export interface Company {
   otherListings?: Listing[];
 }
 
+/**
+ * Details of the HTTP response a service call was answered with
+ */
+export interface ResponseMetadata {
+  status: number;
+  /** Response headers, with lowercase names */
+  headers: Record<string, string>;
+  requestId?: string;
+  /** Time from the first attempt to the response, including retries, in ms */
+  durationMs: number;
+  /** Attempts made, including the first one */
+  attempts: number;
+  /** Whether the response was served from the response cache; timing and headers are then those of the original request */
+  cached: boolean;
+}
+
+/**
+ * Result of a service call made with `includeMetadata: true`
+ */
+export interface WithMetadata<T> {
+  data: T;
+  metadata: ResponseMetadata;
+}
+
 export interface ApiResponse<T> {
   status: string;
   page: number;
@@ -60,13 +100,30 @@ export type ArticleCategories =
   | 'health'
   | 'climate'
   | 'security';
+/**
+ * A point in time relative to now, e.g. `{ last: '24h' }` for 24 hours ago.
+ * Supported units: ms, s, m, h, d, w.
+ */
+export interface RelativeDate {
+  last: string;
+}
+
+/**
+ * Date accepted by time-bounded parameters. All inputs are normalized to UTC:
+ * - `'YYYY-MM-DD'` for a whole day, or an ISO 8601 string (read as UTC when it has no offset)
+ * - a `Date` or epoch milliseconds
+ * - `'now'`, or a relative string like `'-7d'` or `'+1h'`
+ * - a {@link RelativeDate} like `{ last: '24h' }`
+ */
+export type DateInput = string | number | Date | RelativeDate;
+
 // Types for Basic Article API
 export interface GetArticlesParams {
   /**
    * Supports advanced query language:
    * e.g: (ticker:AAPL OR ticker:NVDA) AND NOT source:www.reuters.com AND "Elon Musk"
    */
-  query?: string; // Search query
+  query?: QueryInput; // Search query string or query builder
   /**
    * @deprecated => use sources
    * source of the articles
@@ -103,13 +160,13 @@ export interface GetArticlesParams {
    */
   excludeSources?: string[];
   /**
-   *  Start date in (YYYY-MM-DD) or ISO Date string
+   *  Start date: YYYY-MM-DD, ISO Date string, Date, epoch ms or relative (e.g. '-7d' or { last: '24h' })
    */
-  from?: string;
+  from?: DateInput;
   /**
-   *  End date in (YYYY-MM-DD) or ISO Date string
+   *  End date: YYYY-MM-DD, ISO Date string, Date, epoch ms or relative (e.g. 'now' or '-1h')
    */
-  to?: string;
+  to?: DateInput;
   language?: string; // Language, default is "en"
   orderBy?: 'publishDate' | 'createdAt'; // Order by
   order?: 'ASC' | 'DESC'; // Sort order
@@ -119,8 +176,34 @@ export interface GetArticlesParams {
   categories?: ArticleCategories[];
 }
 
+/**
+ * Search parameters for a historical backfill.
+ * Paging and ordering are controlled by the backfill itself.
+ */
+export type BackfillParams = Omit<GetArticlesParams, 'page' | 'orderBy' | 'order' | 'from' | 'to'> & {
+  /** Start of the range (inclusive), see {@link DateInput} */
+  from: DateInput;
+  /** End of the range (exclusive; a YYYY-MM-DD date includes that whole day), see {@link DateInput} */
+  to: DateInput;
+};
+
+/**
+ * Progress of a backfill, persisted after every completed window
+ * and passed back to resume an interrupted backfill
+ */
+export interface BackfillCheckpoint {
+  /** Everything before this ISO timestamp has been emitted */
+  cursor: string;
+  /** Window size to continue with, in ms */
+  windowMs: number;
+  /** Articles emitted so far */
+  articlesEmitted: number;
+  /** Links of emitted articles published exactly at `cursor`, skipped if the next window returns them again */
+  boundaryLinks?: string[];
+}
+
 export interface GetArticlesWebSocketParams {
-  query?: string; // Search query
+  query?: QueryInput; // Search query string or query builder
   /**
    * Limit search to sources. Will overwrite default source set. Take a look at the sources API endpoint to know which endpoints are available and are on by default
    */
@@ -157,7 +240,10 @@ export interface GetArticlesWebSocketParams {
 }
 
 export interface GetRawArticlesWebSocketParams {
-  query?: string;
+  /**
+   * Search query string or query builder. Supports the `source:`, `title:` and `summary:` fields.
+   */
+  query?: QueryInput;
   /**
    * Limit search to sources. Will overwrite default source set.
    */
@@ -197,3 +283,26 @@ export interface GetArticleByLinkParams {
   /** Whether to include tagged company data */
   includeEntities?: boolean;
 }
+
+/**
+ * Outcome of one link in a `fetchArticlesByLinks` batch
+ */
+export type ArticleByLinkResult =
+  | { link: string; status: 'found'; article: Article }
+  | { link: string; status: 'not_found'; error: FinlightApiError }
+  | { link: string; status: 'error'; error: FinlightApiError };
+
+/**
+ * Progress of a `fetchArticlesByLinks` batch, reported after every link
+ */
+export interface ArticleByLinkProgress {
+  /** Link that just completed */
+  link: string;
+  /** Links completed so far */
+  completed: number;
+  /** Unique links in the batch */
+  total: number;
+  found: number;
+  notFound: number;
+  failed: number;
+}
@@ -0,0 +1,10 @@
+import { AbortError } from '../errors';
+
+/**
+ * Throws an AbortError if the signal has been aborted
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new AbortError();
+  }
+}
@@ -0,0 +1,52 @@
+import { Sentiment } from '../types';
+
+/**
+ * Sentiment labels an article can carry
+ */
+export const SENTIMENTS: readonly Sentiment[] = ['positive', 'negative', 'neutral'];
+
+/**
+ * Coerces a number or numeric string, e.g. a `confidence` of `"0.91"`.
+ *
+ * - Finite numbers are kept as they are, including `0`
+ * - Numeric strings are parsed after trimming, so `"0"` becomes `0`
+ * - `null`, `undefined`, empty strings, non-numeric strings, `NaN` and `Infinity` become `undefined`
+ */
+export function coerceNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Coerces a Date, ISO 8601 string or epoch ms to a Date.
+ *
+ * Returns `undefined` for `null`, `undefined` and anything that does not describe
+ * a valid point in time, instead of an `Invalid Date`.
+ */
+export function coerceDate(value: unknown): Date | undefined {
+  if (!(value instanceof Date) && typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Normalizes a sentiment label, ignoring case and surrounding whitespace.
+ * Returns `undefined` for anything that is not a known sentiment.
+ *
+ * @example normalizeSentiment(' Positive ') // 'positive'
+ */
+export function normalizeSentiment(value: unknown): Sentiment | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const sentiment = value.trim().toLowerCase() as Sentiment;
+  return SENTIMENTS.includes(sentiment) ? sentiment : undefined;
+}
@@ -0,0 +1,162 @@
+import { ValidationError } from '../errors';
+import { DateInput } from '../types';
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const TIMEZONE_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/;
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?)(ms|s|m|h|d|w)$/;
+const RELATIVE_PATTERN = /^([+-])(.+)$/;
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a duration like `'30s'`, `'15m'`, `'24h'`, `'7d'` or `'2w'`
+ *
+ * @returns The duration in ms, or undefined if the string is not a valid duration
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = DURATION_PATTERN.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  return Number(match[1]) * DURATION_UNITS_MS[match[2]];
+}
+
+/**
+ * Parses a YYYY-MM-DD or ISO 8601 date string, rejecting impossible dates like 2024-02-30.
+ * Date-times without an offset are read as UTC rather than local time.
+ *
+ * @returns Epoch milliseconds, or undefined if the string is not a valid date
+ */
+export function parseDate(value: string): number | undefined {
+  if (!DATE_ONLY_PATTERN.test(value) && !ISO_DATE_TIME_PATTERN.test(value)) {
+    return undefined;
+  }
+  const isDateOnly = DATE_ONLY_PATTERN.test(value);
+  const time = Date.parse(isDateOnly || TIMEZONE_PATTERN.test(value) ? value : `${value}Z`);
+  if (isNaN(time)) {
+    return undefined;
+  }
+  // Date.parse rolls over impossible days (2024-02-30 => 2024-03-01)
+  const datePart = value.slice(0, 10);
+  if (new Date(`${datePart}T00:00:00Z`).toISOString().slice(0, 10) !== datePart) {
+    return undefined;
+  }
+  return time;
+}
+
+/**
+ * Resolves any supported date input to a point in time.
+ *
+ * Accepts `Date` objects, epoch milliseconds, YYYY-MM-DD and ISO 8601 strings,
+ * `'now'`, relative strings like `'-7d'` or `'+1h'` and `{ last: '24h' }`.
+ * Relative inputs are resolved against `now`, so pass the same `now` for both
+ * ends of a range.
+ *
+ * @param value - Date input to resolve
+ * @param now - Reference time for relative inputs (default: `Date.now()`)
+ *
+ * @returns Epoch milliseconds, or undefined if the input is not a valid date
+ */
+export function resolveDate(value: unknown, now = Date.now()): number | undefined {
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return isNaN(time) ? undefined : time;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'object' && value !== null && typeof (value as { last?: unknown }).last === 'string') {
+    const duration = parseDuration((value as { last: string }).last);
+    return duration === undefined ? undefined : now - duration;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (trimmed === 'now') {
+    return now;
+  }
+  const relative = RELATIVE_PATTERN.exec(trimmed);
+  if (relative) {
+    const duration = parseDuration(relative[2]);
+    return duration === undefined ? undefined : now + (relative[1] === '-' ? -duration : duration);
+  }
+  return parseDate(trimmed);
+}
+
+/**
+ * Resolves the end of a date range to an exclusive bound.
+ *
+ * A YYYY-MM-DD string denotes the whole (UTC) day, as it does for `fetchArticles`,
+ * so it resolves to the start of the next day. Other inputs resolve like `resolveDate`.
+ *
+ * @returns Epoch milliseconds, or undefined if the input is not a valid date
+ */
+export function resolveRangeEnd(value: unknown, now = Date.now()): number | undefined {
+  const time = resolveDate(value, now);
+  if (time !== undefined && typeof value === 'string' && DATE_ONLY_PATTERN.test(value.trim())) {
+    return time + DURATION_UNITS_MS.d;
+  }
+  return time;
+}
+
+/**
+ * Normalizes a date input to the string format sent to the API.
+ *
+ * YYYY-MM-DD strings are sent unchanged as they denote a whole (UTC) day;
+ * every other input is converted to a UTC ISO 8601 timestamp. Strings that
+ * cannot be resolved are passed through for the server to reject.
+ *
+ * @param value - Date input to normalize
+ * @param now - Reference time for relative inputs (default: `Date.now()`)
+ *
+ * @returns The normalized date string, or undefined if no value was given
+ *
+ * @throws {ValidationError} If a non-string input is not a valid date
+ *
+ * @example
+ * ```typescript
+ * normalizeDateInput(new Date('2024-01-01T12:00:00+02:00')); // '2024-01-01T10:00:00.000Z'
+ * normalizeDateInput({ last: '24h' }); // 24 hours ago as ISO timestamp
+ * normalizeDateInput('2024-01-01'); // '2024-01-01'
+ * ```
+ */
+export function normalizeDateInput(value: DateInput | undefined, now = Date.now()): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value === 'string' && DATE_ONLY_PATTERN.test(value.trim())) {
+    return value.trim();
+  }
+
+  const time = resolveDate(value, now);
+  if (time === undefined) {
+    if (typeof value === 'string') {
+      return value;
+    }
+    throw new ValidationError(`Invalid date: ${describeDateInput(value)}`);
+  }
+  return new Date(time).toISOString();
+}
+
+/**
+ * Renders a date input for error messages
+ */
+export function describeDateInput(value: unknown): string {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+  }
+  if (typeof value === 'object' && value !== null) {
+    return JSON.stringify(value);
+  }
+  return typeof value === 'string' ? `'${value}'` : String(value);
+}
@@ -0,0 +1,46 @@
+/**
+ * Reads a header value case-insensitively from a plain header map
+ */
+export function getHeader(headers: Record<string, unknown> | undefined, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const lowerName = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === lowerName && value !== undefined && value !== null) {
+      return Array.isArray(value) ? String(value[0]) : String(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses a `Retry-After` header value into milliseconds
+ * Supports both delay-seconds and HTTP-date formats
+ *
+ * @returns Delay in milliseconds, or undefined if the value is missing or malformed
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Extracts the server-assigned request id from response headers
+ */
+export function getRequestId(headers: Record<string, unknown> | undefined): string | undefined {
+  return getHeader(headers, 'x-request-id') ?? getHeader(headers, 'x-amzn-requestid');
+}
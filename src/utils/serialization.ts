@@ -0,0 +1,36 @@
+import { Article, SerializedArticle } from '../types';
+import { coerceArticle, throwInvalidDate } from './transform';
+
+/**
+ * Converts an article to a JSON-safe object with dates as ISO 8601 strings.
+ * `deserializeArticle` restores an equal `Article`, so articles can be persisted
+ * and re-hydrated elsewhere without losing dates, zero confidences or unknown fields.
+ *
+ * @example
+ * ```typescript
+ * await redis.set(article.link, JSON.stringify(serializeArticle(article)));
+ * ```
+ */
+export function serializeArticle(article: Article): SerializedArticle {
+  const { publishDate, createdAt, ...rest } = article;
+  return {
+    ...rest,
+    publishDate: publishDate.toISOString(),
+    ...(createdAt !== undefined && { createdAt: createdAt.toISOString() }),
+  };
+}
+
+/**
+ * Restores an article produced by `serializeArticle`, from the object or its JSON string
+ *
+ * @throws {PayloadValidationError} If a date is invalid
+ * @throws {SyntaxError} If the string is not valid JSON
+ *
+ * @example
+ * ```typescript
+ * const article = deserializeArticle(await redis.get(link));
+ * ```
+ */
+export function deserializeArticle(serialized: SerializedArticle | string): Article {
+  return coerceArticle(typeof serialized === 'string' ? JSON.parse(serialized) : serialized, throwInvalidDate);
+}
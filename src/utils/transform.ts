@@ -0,0 +1,118 @@
+import { Article, RawArticle } from '../types';
+import { Logger, noopLogger } from '../logger';
+import { PayloadValidationError } from '../schema/errors';
+import { PayloadIssue } from '../schema/types';
+import { coerceDate, coerceNumber, normalizeSentiment } from './coercion';
+
+type InvalidDateHandler = (payloadType: string, issue: PayloadIssue) => void;
+
+/**
+ * Transforms raw article data from API/WebSocket to properly typed Article object
+ *
+ * Coercion rules:
+ * - `publishDate` and `createdAt` become Dates; `null` removes them, and an invalid date is
+ *   removed and logged as a warning
+ * - `confidence` (article and companies) accepts numbers and numeric strings, so `"0"` becomes `0`;
+ *   `null`, empty and non-numeric values are removed
+ * - `sentiment` is lowercased and trimmed; unknown labels are removed
+ *
+ * @param log - Receives a warning for every invalid date that was removed
+ */
+export function transformArticle(rawArticle: any, log: Logger = noopLogger): Article {
+  return coerceArticle(rawArticle, warnInvalidDate(log));
+}
+
+/**
+ * Applies the article coercion rules, passing invalid dates to `onInvalidDate` before removing them
+ */
+export function coerceArticle(rawArticle: any, onInvalidDate: InvalidDateHandler): Article {
+  const article = { ...rawArticle };
+
+  assignDate(article, 'publishDate', 'Article', onInvalidDate);
+  assignDate(article, 'createdAt', 'Article', onInvalidDate);
+  assignCoerced(article, 'confidence', coerceNumber);
+  assignCoerced(article, 'sentiment', normalizeSentiment);
+
+  if (Array.isArray(article.companies)) {
+    article.companies = article.companies.map((company: any) => {
+      const normalized = { ...company };
+      assignCoerced(normalized, 'confidence', coerceNumber);
+      return normalized;
+    });
+  }
+
+  return article as Article;
+}
+
+/**
+ * Transforms an array of raw articles to properly typed Article objects
+ */
+export function transformArticles(rawArticles: any[], log: Logger = noopLogger): Article[] {
+  return rawArticles.map((rawArticle) => transformArticle(rawArticle, log));
+}
+
+/**
+ * Transforms raw article data from Raw WebSocket to properly typed RawArticle object
+ * Simpler than transformArticle since raw articles don't have sentiment, confidence, or companies
+ *
+ * @param log - Receives a warning if `publishDate` is invalid and was removed
+ */
+export function transformRawArticle(rawArticle: any, log: Logger = noopLogger): RawArticle {
+  const article = { ...rawArticle };
+  assignDate(article, 'publishDate', 'RawArticle', warnInvalidDate(log));
+  return article as RawArticle;
+}
+
+/**
+ * Transforms an array of raw articles to properly typed RawArticle objects
+ */
+export function transformRawArticles(rawArticles: any[], log: Logger = noopLogger): RawArticle[] {
+  return rawArticles.map((rawArticle) => transformRawArticle(rawArticle, log));
+}
+
+/**
+ * Throws a PayloadValidationError for an invalid date, for callers that must not lose a date silently
+ */
+export const throwInvalidDate: InvalidDateHandler = (payloadType, issue) => {
+  throw new PayloadValidationError(payloadType, [issue]);
+};
+
+function warnInvalidDate(log: Logger): InvalidDateHandler {
+  return (payloadType, issue) => log.warn?.(`Removed invalid ${payloadType} ${issue.path}: ${issue.message}`);
+}
+
+/**
+ * Replaces a field with its coerced value, removing it when the value is missing or not coercible
+ */
+function assignCoerced(target: Record<string, unknown>, field: string, coerce: (value: unknown) => unknown): void {
+  if (!(field in target)) return;
+  const value = coerce(target[field]);
+  if (value === undefined) {
+    delete target[field];
+  } else {
+    target[field] = value;
+  }
+}
+
+function assignDate(
+  target: Record<string, unknown>,
+  field: string,
+  payloadType: string,
+  onInvalid: InvalidDateHandler,
+): void {
+  const value = target[field];
+  if (value === undefined || value === null) {
+    delete target[field];
+    return;
+  }
+  const date = coerceDate(value);
+  if (!date) {
+    onInvalid(payloadType, {
+      path: field,
+      message: `expected an ISO 8601 date string or epoch ms, got ${JSON.stringify(value)}`,
+    });
+    delete target[field];
+    return;
+  }
+  target[field] = date;
+}
@@ -0,0 +1,25 @@
+export {
+  ARTICLE_CATEGORIES,
+  MIN_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  validatePageSize,
+  validatePage,
+  validateDate,
+  validateDateRange,
+  validateCountries,
+  validateCategories,
+  validateStringList,
+  validateSourceConflicts,
+  validateLanguage,
+  validateOneOf,
+  validateQueryParam,
+  validateUrl,
+} from './rules';
+export {
+  validateGetArticlesParams,
+  validateGetArticleByLinkParams,
+  validateBackfillRange,
+  validateWebSocketParams,
+  validateRawWebSocketParams,
+  assertValidParams,
+} from './params';
@@ -0,0 +1,137 @@
+import { ParamIssue, ParamsValidationError } from '../errors';
+import {
+  BackfillParams,
+  GetArticleByLinkParams,
+  GetArticlesParams,
+  GetArticlesWebSocketParams,
+  GetRawArticlesWebSocketParams,
+} from '../types';
+import { describeDateInput, resolveDate, resolveRangeEnd } from '../utils/dates';
+import {
+  validateCategories,
+  validateCountries,
+  validateDate,
+  validateDateRange,
+  validateLanguage,
+  validateOneOf,
+  validatePage,
+  validatePageSize,
+  validateQueryParam,
+  validateSourceConflicts,
+  validateStringList,
+  validateUrl,
+} from './rules';
+
+/**
+ * Validates search parameters for `ArticleService.fetchArticles`
+ *
+ * @param now - Reference time for relative `from`/`to` dates (default: `Date.now()`)
+ * @returns Every problem found; empty if the parameters are valid
+ */
+export function validateGetArticlesParams(params: GetArticlesParams, now = Date.now()): ParamIssue[] {
+  return [
+    ...validateQueryParam(params.query, 'rest'),
+    ...validateStringList(params.tickers, 'tickers'),
+    ...validateStringList(params.sources, 'sources'),
+    ...validateStringList(params.excludeSources, 'excludeSources'),
+    ...validateStringList(params.optInSources, 'optInSources'),
+    ...validateSourceConflicts(params.sources, params.excludeSources),
+    ...validateCountries(params.countries),
+    ...validateCategories(params.categories),
+    ...validateDate(params.from, 'from', now),
+    ...validateDate(params.to, 'to', now),
+    ...validateDateRange(params.from, params.to, now),
+    ...validateLanguage(params.language),
+    ...validateOneOf(params.orderBy, 'orderBy', ['publishDate', 'createdAt']),
+    ...validateOneOf(params.order, 'order', ['ASC', 'DESC']),
+    ...validatePageSize(params.pageSize),
+    ...validatePage(params.page),
+  ];
+}
+
+/**
+ * Validates the date range of `ArticleService.backfill`; the other parameters are checked with every window's search
+ *
+ * @param cursor - Checkpoint cursor the backfill resumes from, checked in place of `from`
+ * @param now - Reference time for relative `from`/`to` dates (default: `Date.now()`)
+ * @returns Every problem found; empty if the range is valid
+ */
+export function validateBackfillRange(
+  params: Pick<BackfillParams, 'from' | 'to'>,
+  cursor?: string,
+  now = Date.now(),
+): ParamIssue[] {
+  const [startField, start] = cursor === undefined ? ['from', params.from] : ['resumeFrom.cursor', cursor];
+  const issues = [...validateRequiredDate(start, startField, now), ...validateRequiredDate(params.to, 'to', now)];
+  if (issues.length > 0) return issues;
+
+  // An empty range is fine: a backfill resumed from its last checkpoint has nothing left to do
+  if (resolveDate(start, now)! > resolveRangeEnd(params.to, now)!) {
+    return [
+      {
+        field: startField,
+        message: `must not be after 'to' (${describeDateInput(start)} > ${describeDateInput(params.to)})`,
+      },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Validates parameters for `ArticleService.fetchArticleByLink`
+ *
+ * @returns Every problem found; empty if the parameters are valid
+ */
+export function validateGetArticleByLinkParams(params: GetArticleByLinkParams): ParamIssue[] {
+  return validateUrl(params.link, 'link');
+}
+
+/**
+ * Validates subscription parameters for `WebSocketClient.connect`
+ *
+ * @returns Every problem found; empty if the parameters are valid
+ */
+export function validateWebSocketParams(params: GetArticlesWebSocketParams): ParamIssue[] {
+  return [
+    ...validateQueryParam(params.query, 'websocket'),
+    ...validateStringList(params.tickers, 'tickers'),
+    ...validateStringList(params.sources, 'sources'),
+    ...validateStringList(params.excludeSources, 'excludeSources'),
+    ...validateStringList(params.optInSources, 'optInSources'),
+    ...validateSourceConflicts(params.sources, params.excludeSources),
+    ...validateCountries(params.countries),
+    ...validateCategories(params.categories),
+    ...validateLanguage(params.language),
+  ];
+}
+
+/**
+ * Validates subscription parameters for `RawWebSocketClient.connect`
+ *
+ * @returns Every problem found; empty if the parameters are valid
+ */
+export function validateRawWebSocketParams(params: GetRawArticlesWebSocketParams): ParamIssue[] {
+  return [
+    ...validateQueryParam(params.query, 'raw'),
+    ...validateStringList(params.sources, 'sources'),
+    ...validateStringList(params.excludeSources, 'excludeSources'),
+    ...validateStringList(params.optInSources, 'optInSources'),
+    ...validateSourceConflicts(params.sources, params.excludeSources),
+    ...validateLanguage(params.language),
+  ];
+}
+
+function validateRequiredDate(value: unknown, field: string, now: number): ParamIssue[] {
+  return value === undefined ? [{ field, message: 'is required' }] : validateDate(value, field, now);
+}
+
+/**
+ * Throws if any issues were found
+ *
+ * @throws {ParamsValidationError} Listing every issue
+ */
+export function assertValidParams(issues: ParamIssue[]): void {
+  if (issues.length > 0) {
+    throw new ParamsValidationError(issues);
+  }
+}
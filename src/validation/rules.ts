@@ -0,0 +1,183 @@
+import { ParamIssue } from '../errors';
+import { QueryInput, QueryTarget, validateQuery } from '../query';
+import { ArticleCategories } from '../types';
+import { describeDateInput, resolveDate, resolveRangeEnd } from '../utils/dates';
+
+/**
+ * Article categories accepted by the `categories` filter
+ */
+export const ARTICLE_CATEGORIES: readonly ArticleCategories[] = [
+  'markets',
+  'economy',
+  'business',
+  'politics',
+  'geopolitics',
+  'regulation',
+  'technology',
+  'energy',
+  'commodities',
+  'crypto',
+  'health',
+  'climate',
+  'security',
+];
+
+export const MIN_PAGE_SIZE = 1;
+export const MAX_PAGE_SIZE = 1000;
+
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+const LANGUAGE_PATTERN = /^[a-z]{2}$/;
+
+/**
+ * Checks a page size against the allowed range (1-1000)
+ */
+export function validatePageSize(value: unknown, field = 'pageSize'): ParamIssue[] {
+  if (value === undefined) return [];
+  if (!Number.isInteger(value) || (value as number) < MIN_PAGE_SIZE || (value as number) > MAX_PAGE_SIZE) {
+    return [{ field, message: `must be an integer between ${MIN_PAGE_SIZE} and ${MAX_PAGE_SIZE}, got ${value}` }];
+  }
+  return [];
+}
+
+/**
+ * Checks a page number (1 or greater)
+ */
+export function validatePage(value: unknown, field = 'page'): ParamIssue[] {
+  if (value === undefined) return [];
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    return [{ field, message: `must be an integer of 1 or greater, got ${value}` }];
+  }
+  return [];
+}
+
+/**
+ * Checks a date input: YYYY-MM-DD or ISO 8601 string, Date, epoch ms or relative date
+ */
+export function validateDate(value: unknown, field: string, now = Date.now()): ParamIssue[] {
+  if (value === undefined) return [];
+  if (resolveDate(value, now) === undefined) {
+    return [
+      {
+        field,
+        message:
+          'must be a YYYY-MM-DD or ISO 8601 string, Date, epoch ms or relative date ' +
+          `(e.g. '-7d' or { last: '24h' }), got ${describeDateInput(value)}`,
+      },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Checks that `from` is not after `to`, resolving relative dates against the same `now`.
+ * A YYYY-MM-DD `to` covers its whole day, so `from` may fall anywhere before the next day starts.
+ */
+export function validateDateRange(from: unknown, to: unknown, now = Date.now()): ParamIssue[] {
+  const fromTime = from === undefined ? undefined : resolveDate(from, now);
+  const toTime = to === undefined ? undefined : resolveDate(to, now);
+  if (fromTime === undefined || toTime === undefined) return [];
+  const toEnd = resolveRangeEnd(to, now)!;
+  if (toEnd === toTime ? fromTime > toTime : fromTime >= toEnd) {
+    return [
+      { field: 'from', message: `must not be after 'to' (${describeDateInput(from)} > ${describeDateInput(to)})` },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Checks ISO 3166-1 alpha-2 country codes (two upper case letters)
+ */
+export function validateCountries(value: unknown, field = 'countries'): ParamIssue[] {
+  return validateList(value, field, (code) =>
+    typeof code === 'string' && COUNTRY_CODE_PATTERN.test(code)
+      ? undefined
+      : `must be an ISO 3166-1 alpha-2 country code in upper case (e.g. 'US'), got '${code}'`,
+  );
+}
+
+/**
+ * Checks categories against the known `ArticleCategories`
+ */
+export function validateCategories(value: unknown, field = 'categories'): ParamIssue[] {
+  return validateList(value, field, (category) =>
+    (ARTICLE_CATEGORIES as readonly unknown[]).includes(category)
+      ? undefined
+      : `unknown category '${category}', expected one of: ${ARTICLE_CATEGORIES.join(', ')}`,
+  );
+}
+
+/**
+ * Checks a list of non-empty strings such as tickers or source domains
+ */
+export function validateStringList(value: unknown, field: string): ParamIssue[] {
+  return validateList(value, field, (item) =>
+    typeof item === 'string' && item.trim() !== '' ? undefined : 'must be a non-empty string',
+  );
+}
+
+/**
+ * Checks that no source is both included and excluded
+ */
+export function validateSourceConflicts(sources: unknown, excludeSources: unknown): ParamIssue[] {
+  if (!Array.isArray(sources) || !Array.isArray(excludeSources)) return [];
+  const conflicting = sources.filter((source) => excludeSources.includes(source));
+  if (conflicting.length > 0) {
+    return [{ field: 'excludeSources', message: `conflicts with 'sources' for: ${conflicting.join(', ')}` }];
+  }
+  return [];
+}
+
+/**
+ * Checks a two-letter lower case language code
+ */
+export function validateLanguage(value: unknown, field = 'language'): ParamIssue[] {
+  if (value === undefined) return [];
+  if (typeof value !== 'string' || !LANGUAGE_PATTERN.test(value)) {
+    return [{ field, message: `must be a two-letter lower case language code (e.g. 'en'), got '${value}'` }];
+  }
+  return [];
+}
+
+/**
+ * Checks a value against a fixed set of options
+ */
+export function validateOneOf(value: unknown, field: string, options: readonly string[]): ParamIssue[] {
+  if (value === undefined || options.includes(value as string)) return [];
+  return [{ field, message: `must be one of ${options.map((o) => `'${o}'`).join(', ')}, got '${value}'` }];
+}
+
+/**
+ * Checks a query for syntax errors and fields the target does not support.
+ * Unknown fields are left to the server so new server-side fields keep working.
+ */
+export function validateQueryParam(value: QueryInput | undefined, target: QueryTarget, field = 'query'): ParamIssue[] {
+  if (typeof value !== 'string') return [];
+  return validateQuery(value, target)
+    .issues.filter((issue) => issue.code !== 'unknown_field')
+    .map((issue) => ({ field, message: issue.message }));
+}
+
+/**
+ * Checks an absolute http(s) URL
+ */
+export function validateUrl(value: unknown, field: string): ParamIssue[] {
+  try {
+    const url = new URL(String(value));
+    if (url.protocol === 'http:' || url.protocol === 'https:') return [];
+  } catch {
+    // Fall through to the issue below
+  }
+  return [{ field, message: `must be an absolute http(s) URL, got '${value}'` }];
+}
+
+function validateList(value: unknown, field: string, check: (item: unknown) => string | undefined): ParamIssue[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    return [{ field, message: 'must be an array' }];
+  }
+  return value.flatMap((item, index) => {
+    const message = check(item);
+    return message ? [{ field: `${field}[${index}]`, message }] : [];
+  });
+}